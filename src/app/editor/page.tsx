@@ -0,0 +1,5 @@
+import { ChartEditor } from "@/components/chart-editor"
+
+export default function EditorPage() {
+  return <ChartEditor />
+}
@@ -1,503 +1,753 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Play, Pause, RotateCcw, Music, Gamepad2, FastForward, Keyboard, Target } from "lucide-react"
+import {
+  Play,
+  Pause,
+  RotateCcw,
+  Music,
+  Gamepad2,
+  FastForward,
+  Keyboard,
+  Target,
+  FileMusic,
+  X,
+  Timer,
+  PencilRuler,
+  Film,
+  Hash,
+  Dices,
+  AudioWaveform,
+  LoaderCircle,
+  Crosshair,
+  Repeat,
+  MonitorPlay,
+} from "lucide-react"
 import { toast } from "sonner"
-
-interface Note {
-  id: number
-  lane: number
-  startTime: number
-  currentY: number
-  element?: HTMLDivElement
-  hit: boolean
-}
-
-interface GameStats {
-  score: number
-  combo: number
-  maxCombo: number
-  perfect: number
-  good: number
-  miss: number
-}
-
-const BASE_NOTE_SPEED = 350 // pixels per second (기본 속도)
-const JUDGMENT_LINE_Y = 500
-const PERFECT_THRESHOLD = 40
-const GOOD_THRESHOLD = 80
-const GAME_HEIGHT = 600
-
-// 키 모드별 설정
-const KEY_MODES = {
-  4: {
-    keys: ["A", "S", "D", "F"],
-    keyMap: {
-      KeyA: 0,
-      ArrowLeft: 0,
-      KeyS: 1,
-      ArrowDown: 1,
-      KeyD: 2,
-      ArrowUp: 2,
-      KeyF: 3,
-      ArrowRight: 3,
-    },
-    colors: ["bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500"],
-  },
-  6: {
-    keys: ["A", "S", "D", "J", "K", "L"],
-    keyMap: {
-      KeyA: 0,
-      KeyS: 1,
-      KeyD: 2,
-      KeyJ: 3,
-      KeyK: 4,
-      KeyL: 5,
-    },
-    colors: ["bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500", "bg-purple-500", "bg-pink-500"],
-  },
-  8: {
-    keys: ["A", "S", "D", "F", "J", "K", "L", ";"],
-    keyMap: {
-      KeyA: 0,
-      KeyS: 1,
-      KeyD: 2,
-      KeyF: 3,
-      KeyJ: 4,
-      KeyK: 5,
-      KeyL: 6,
-      Semicolon: 7,
-    },
-    colors: [
-      "bg-red-500",
-      "bg-blue-500",
-      "bg-green-500",
-      "bg-yellow-500",
-      "bg-purple-500",
-      "bg-pink-500",
-      "bg-indigo-500",
-      "bg-orange-500",
-    ],
-  },
-}
-
-// 난이도별 설정 추가
-const DIFFICULTY_SETTINGS = {
-  easy: {
-    name: "Easy",
-    noteInterval: { min: 800, max: 1200 }, // 노트 간격 (ms)
-    patternComplexity: 0.3, // 복잡한 패턴 확률
-    speedMultiplier: 0.8, // 기본 속도 배수
-    color: "text-green-400",
-  },
-  normal: {
-    name: "Normal",
-    noteInterval: { min: 400, max: 800 },
-    patternComplexity: 0.6,
-    speedMultiplier: 1.0,
-    color: "text-yellow-400",
-  },
-  hard: {
-    name: "Hard",
-    noteInterval: { min: 200, max: 600 },
-    patternComplexity: 1.0,
-    speedMultiplier: 1.2,
-    color: "text-red-400",
-  },
-}
+import { AttractDemo } from "@/components/attract-demo"
+import { CalibrationWizard } from "@/components/calibration-wizard"
+import { KeyBindingSettings } from "@/components/key-binding-settings"
+import { LifeGauge } from "@/components/life-gauge"
+import { ModifierSettings } from "@/components/modifier-settings"
+import { PlayHistory } from "@/components/play-history"
+import { PracticeProgress } from "@/components/practice-progress"
+import { PracticeSetup } from "@/components/practice-setup"
+import { ReplayViewer } from "@/components/replay-viewer"
+import { ResultsScreen } from "@/components/results-screen"
+import { SongSelect } from "@/components/song-select"
+import { VolumeSettings } from "@/components/volume-settings"
+import { analyzeAudio } from "@/lib/audio-analysis"
+import { AudioEngine, type AudioVolumes } from "@/lib/audio-engine"
+import { AutoPlayer, getPerfectStats } from "@/lib/auto-play"
+import { InputManager, type LaneInputEvent } from "@/lib/input-manager"
+import { DEFAULT_CALIBRATION, loadCalibration, saveCalibration, type CalibrationSettings } from "@/lib/calibration"
+import { DEFAULT_GAUGE, createGaugeState, type GaugeState } from "@/lib/gauge"
+import { chartToNotes, getChartId, getChartTiming, type Chart } from "@/lib/chart"
+import {
+  CHART_FILE_EXTENSIONS,
+  importChart,
+  isChartFileName,
+  readChartFileText,
+  resolveChartAssets,
+} from "@/lib/chart-import"
+import {
+  buildKeyMap,
+  getDefaultGamepadBindings,
+  getDefaultKeyBindings,
+  getLaneLabel,
+  loadGamepadBindings,
+  loadKeyBindings,
+  saveGamepadBindings,
+  saveKeyBindings,
+  type GamepadBindings,
+  type KeyBindings,
+} from "@/lib/key-bindings"
+import {
+  clearPlayHistory,
+  getPersonalBests,
+  loadPlayHistory,
+  savePlayRecord,
+  type PlayRecord,
+} from "@/lib/score-storage"
+import { GameEngine } from "@/lib/game-engine"
+import { HitSoundPlayer, JUDGMENT_SOUNDS } from "@/lib/hit-sounds"
+import {
+  REPLAY_FORMAT_VERSION,
+  getReplayFileName,
+  getReplayNotes,
+  isSameStats,
+  loadReplayChart,
+  parseReplayJson,
+  quantizeInputTime,
+  serializeReplay,
+  type Replay,
+} from "@/lib/replay"
+import { INITIAL_STATS, createInitialStats, getAccuracy, getJudgmentCounts } from "@/lib/stats"
+import { loadRulesetId, saveRulesetId } from "@/lib/ruleset-settings"
+import {
+  DEFAULT_MODIFIERS,
+  applyLaneModifier,
+  createAppliedModifiers,
+  describeModifiers,
+  getGaugeSettings,
+  loadModifiers,
+  saveModifiers,
+  type AppliedModifiers,
+  type Modifiers,
+} from "@/lib/modifiers"
+import {
+  createSeed,
+  generateChartFromAudio,
+  generateNotes,
+  getRandomSongId,
+  parseSeed,
+} from "@/lib/note-generator"
+import {
+  DEFAULT_PRACTICE_SETTINGS,
+  getPracticeNotes,
+  loadPracticeSettings,
+  savePracticeSettings,
+  type PracticeSession,
+  type PracticeSettings,
+} from "@/lib/practice"
+import { getSongAudioUrl, getSongFileUrl, loadSongChart, loadSongLibrary, type SongEntry } from "@/lib/song-library"
+import { CanvasRenderer, createNoteTimeline, type NoteTimeline } from "@/lib/renderer"
+import { takeTestPlayRequest, type TestPlayRequest } from "@/lib/test-play"
+import type { TimingMap } from "@/lib/timing"
+import { cn } from "@/lib/utils"
+import { DEFAULT_VOLUMES, loadVolumes, saveVolumes } from "@/lib/volume-settings"
+import {
+  BASE_NOTE_SPEED,
+  DIFFICULTY_SETTINGS,
+  GAME_HEIGHT,
+  DEFAULT_RULESET,
+  JUDGMENT_DISPLAY,
+  KEY_MODES,
+  RULESETS,
+  getRuleset,
+  type Difficulty,
+  type GameStats,
+  type KeyMode,
+  type Note,
+  type RulesetId,
+} from "@/lib/game-config"
+
+const TEST_PLAY_LEAD_IN = 2000 // 테스트 플레이 시작 지점 전에 미리 재생하는 시간 (ms)
+const ATTRACT_DELAY = 30000 // 메인 메뉴에서 입력이 없으면 데모를 보여 주기까지의 시간 (ms)
 
 export default function RhythmGame() {
   const [gameState, setGameState] = useState<"menu" | "playing" | "paused" | "ended">("menu")
-  const [notes, setNotes] = useState<Note[]>([])
-  const [stats, setStats] = useState<GameStats>({
-    score: 0,
-    combo: 0,
-    maxCombo: 0,
-    perfect: 0,
-    good: 0,
-    miss: 0,
-  })
+  const [stats, setStats] = useState<GameStats>(INITIAL_STATS)
+  const [gauge, setGauge] = useState<GaugeState>(() => createGaugeState(DEFAULT_GAUGE))
   const [pressedKeys, setPressedKeys] = useState<Set<number>>(new Set())
-  const [judgment, setJudgment] = useState<{ text: string; color: string } | null>(null)
   const [speedMultiplier, setSpeedMultiplier] = useState<number>(1)
-  const [keyMode, setKeyMode] = useState<4 | 6 | 8>(4) // 키 모드 상태 추가
+  const [keyMode, setKeyMode] = useState<KeyMode>(4) // 키 모드 상태 추가
   // 상태에 difficulty 추가
-  const [difficulty, setDifficulty] = useState<"easy" | "normal" | "hard">("normal")
+  const [difficulty, setDifficulty] = useState<Difficulty>("normal")
+  // 판정 규칙 (판정 단계와 점수 방식)
+  const [rulesetId, setRulesetId] = useState<RulesetId>(DEFAULT_RULESET)
+  // 플레이 옵션과 이번 플레이에 적용한 옵션
+  const [modifiers, setModifiers] = useState<Modifiers>(DEFAULT_MODIFIERS)
+  const [playModifiers, setPlayModifiers] = useState<AppliedModifiers | null>(null)
+  // 랜덤 채보 시드 (같은 시드, 키 모드, 난이도면 같은 채보)
+  const [seed, setSeed] = useState(0)
+  const [seedInput, setSeedInput] = useState("0")
+  const [audioFile, setAudioFile] = useState<File | null>(null)
+  // 음악 파일을 분석해 채보를 만드는 중인지
+  const [analyzingAudio, setAnalyzingAudio] = useState(false)
+  const [chart, setChart] = useState<Chart | null>(null)
+  const [songs, setSongs] = useState<SongEntry[]>([])
+  const [selectedSongId, setSelectedSongId] = useState<string | null>(null)
+  const [previewSongId, setPreviewSongId] = useState<string | null>(null)
+  const [playHistory, setPlayHistory] = useState<PlayRecord[]>([])
+  const [showAllHistory, setShowAllHistory] = useState(false)
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(getDefaultKeyBindings)
+  const [gamepadBindings, setGamepadBindings] = useState<GamepadBindings>(getDefaultGamepadBindings)
+  const [calibration, setCalibration] = useState<CalibrationSettings>(DEFAULT_CALIBRATION)
+  const [volumes, setVolumes] = useState<AudioVolumes>(DEFAULT_VOLUMES)
+  // 메뉴 안의 화면 (메인 / 키 설정 / 오프셋 보정 / 리플레이 보기 / 연습 구간 선택)
+  const [menuView, setMenuView] = useState<"main" | "keyBindings" | "calibration" | "replay" | "practice">("main")
+  // 에디터에서 요청한 테스트 플레이 (기록은 저장하지 않는다)
+  const [testPlay, setTestPlay] = useState<TestPlayRequest | null>(null)
+  const [pendingTestPlay, setPendingTestPlay] = useState<TestPlayRequest | null>(null)
+  // 마지막 플레이의 리플레이와 리플레이 보기 화면에서 재생 중인 리플레이
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [replayView, setReplayView] = useState<{ replay: Replay; notes: Note[]; timing?: TimingMap } | null>(null)
+  // 연습 모드 (구간 반복, 기록은 저장하지 않는다) 설정, 진행 중인 연습과 회차별 정확도
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS)
+  const [practice, setPractice] = useState<PracticeSession | null>(null)
+  const [practiceLoops, setPracticeLoops] = useState<number[]>([])
+  // 메뉴 데모 (자동 플레이로 현재 채보를 보여 준다)
+  const [showDemo, setShowDemo] = useState(false)
 
   const gameAreaRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<CanvasRenderer | null>(null)
   const animationRef = useRef<number>(0)
-  const startTimeRef = useRef<number>(0)
-  const pauseTimeRef = useRef<number>(0)
+  const audioEngineRef = useRef<AudioEngine | null>(null)
+  const hitSoundsRef = useRef<HitSoundPlayer | null>(null)
+  const inputManagerRef = useRef<InputManager | null>(null)
   const noteIdRef = useRef(0)
-  const notesMapRef = useRef<Map<number, HTMLDivElement>>(new Map())
+  const previewTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const recordSavedRef = useRef(false)
+  // 판정과 점수, 입력 기록을 맡는 게임 엔진 (입력과 게임 루프가 함께 진행)
+  const engineRef = useRef(new GameEngine())
+  // 이번 플레이 채보의 시간 색인 (화면에 보이는 노트만 찾아 그리기 위해)
+  const timelineRef = useRef<NoteTimeline>(createNoteTimeline([]))
+  // 이번 플레이 채보의 배경음 (연습 구간을 반복할 때마다 다시 예약)
+  const bgmRef = useRef<{ sound: string; time: number }[]>([])
+  // 자동 플레이 입력 (자동 플레이 옵션을 켠 플레이에서만)
+  const autoPlayerRef = useRef<AutoPlayer | null>(null)
 
   // 현재 키 모드 설정 가져오기
   const currentKeyConfig = KEY_MODES[keyMode]
+  // 사용자 키 설정 (레인별 키 목록과 입력용 키 맵)
+  const currentLaneKeys = keyBindings[keyMode]
+  const currentKeyMap = useMemo(() => buildKeyMap(currentLaneKeys), [currentLaneKeys])
   // 현재 난이도 설정 가져오기
   const currentDifficultyConfig = DIFFICULTY_SETTINGS[difficulty]
+  // 선택한 라이브러리 곡
+  const selectedSong = songs.find((song) => song.id === selectedSongId) ?? null
+  // 기록 저장용 현재 채보 식별자
+  const currentChartId = getChartId(
+    selectedSong ? selectedSong.id : chart ? `file:${chart.meta.title} - ${chart.meta.artist}` : getRandomSongId(seed),
+    keyMode,
+    difficulty,
+  )
+  const personalBests = useMemo(() => getPersonalBests(playHistory, rulesetId), [playHistory, rulesetId])
+  const currentRuleset = getRuleset(rulesetId)
+  // 연습 구간 선택 화면과 데모에 보여 줄 현재 채보의 노트와 박자 정보
+  const previewChart = useMemo(() => {
+    if (menuView !== "practice" && !showDemo) return null
+    return chart
+      ? { notes: chartToNotes(chart), timing: getChartTiming(chart) }
+      : { notes: generateNotes({ keyMode, difficulty, seed }), timing: undefined }
+  }, [menuView, showDemo, chart, keyMode, difficulty, seed])
+
+  // 오디오 엔진 (브라우저에서만 생성)
+  const getAudioEngine = useCallback(() => {
+    if (!audioEngineRef.current) {
+      audioEngineRef.current = new AudioEngine()
+    }
+    return audioEngineRef.current
+  }, [])
 
-  // 샘플 노트 패턴 생성 (키 모드와 난이도에 따라 동적으로)
-  const generateNotes = useCallback(() => {
-    const newNotes: Note[] = []
-    const lanes = keyMode
-    const diffConfig = DIFFICULTY_SETTINGS[difficulty]
-
-    // 키 모드와 난이도에 따른 패턴 생성
-    const generatePatterns = () => {
-      const patterns = []
-
-      // 단일 노트 (모든 난이도)
-      for (let i = 0; i < lanes; i++) {
-        patterns.push([i])
-      }
-
-      // 더블 노트 (Normal 이상)
-      if (diffConfig.patternComplexity >= 0.6) {
-        for (let i = 0; i < lanes - 1; i++) {
-          patterns.push([i, i + 1])
-          if (i < lanes - 2) patterns.push([i, i + 2])
-        }
-      }
-
-      // 트리플 노트 (Hard + 6키 이상)
-      if (diffConfig.patternComplexity >= 1.0 && lanes >= 6) {
-        for (let i = 0; i < lanes - 2; i++) {
-          patterns.push([i, i + 1, i + 2])
-        }
-      }
-
-      // 쿼드 노트 (Hard + 8키)
-      if (diffConfig.patternComplexity >= 1.0 && lanes >= 8) {
-        patterns.push([0, 1, 2, 3])
-        patterns.push([4, 5, 6, 7])
-        patterns.push([0, 2, 4, 6])
-        patterns.push([1, 3, 5, 7])
-      }
-
-      // Easy 모드에서는 복잡한 패턴 제한
-      if (difficulty === "easy") {
-        return patterns.filter((pattern) => pattern.length <= 2)
-      }
-
-      return patterns
+  // 타격음과 키음 (오디오 엔진의 hit 채널)
+  const getHitSounds = useCallback(() => {
+    if (!hitSoundsRef.current) {
+      hitSoundsRef.current = new HitSoundPlayer(getAudioEngine())
     }
+    return hitSoundsRef.current
+  }, [getAudioEngine])
 
-    const patterns = generatePatterns()
-
-    // 난이도별 노트 간격으로 생성
-    for (
-      let time = 3000;
-      time < 90000;
-      time += diffConfig.noteInterval.min + Math.random() * (diffConfig.noteInterval.max - diffConfig.noteInterval.min)
-    ) {
-      // 난이도에 따른 패턴 선택
-      let selectedPattern
-      if (difficulty === "easy") {
-        // Easy: 단일 노트 위주
-        const singleNotes = patterns.filter((p) => p.length === 1)
-        const doubleNotes = patterns.filter((p) => p.length === 2)
-        selectedPattern =
-          Math.random() < 0.7
-            ? singleNotes[Math.floor(Math.random() * singleNotes.length)]
-            : doubleNotes[Math.floor(Math.random() * doubleNotes.length)] || singleNotes[0]
-      } else {
-        selectedPattern = patterns[Math.floor(Math.random() * patterns.length)]
-      }
+  // 노트가 내려오는 속도 (배속은 화면 표시에만 영향)
+  const scrollSpeed = BASE_NOTE_SPEED * speedMultiplier * currentDifficultyConfig.speedMultiplier
 
-      selectedPattern.forEach((lane) => {
-        newNotes.push({
-          id: noteIdRef.current++,
-          lane,
-          startTime: time,
-          currentY: -100,
-          hit: false,
-        })
-      })
-    }
+  // 입력 시각을 판정용 곡 시간으로 변환 (리플레이에 그대로 기록할 수 있도록 1µs 단위)
+  // 오프셋은 실제 시간이므로 재생 속도를 곱해 곡 시간으로 바꾼다
+  const getInputSongTime = useCallback(
+    (timestamp: number) => {
+      const audioEngine = getAudioEngine()
+      return quantizeInputTime(
+        audioEngine.getSongTimeAt(timestamp) - calibration.audioOffset * audioEngine.playbackRate,
+      )
+    },
+    [getAudioEngine, calibration],
+  )
 
-    return newNotes.sort((a, b) => a.startTime - b.startTime)
-  }, [keyMode, difficulty])
-
-  // 노트 DOM 요소 생성
-  const createNoteElement = useCallback(
-    (note: Note) => {
-      const element = document.createElement("div")
-      element.className = `absolute rounded-lg border-2 border-white z-10 shadow-lg`
-      element.style.width = `calc(${100 / keyMode}% - 8px)`
-      element.style.height = "36px"
-      element.style.left = `calc(${(note.lane * 100) / keyMode}% + 4px)`
-      element.style.transform = "translateY(-100px)"
-      element.style.willChange = "transform"
-      element.style.transition = "opacity 0.2s ease-out"
-
-      // 레인별 색상
-      element.classList.add(currentKeyConfig.colors[note.lane])
-
-      return element
+  // 레인 누름/뗌을 판정에 넣기 (직접 입력과 자동 플레이 공통, time은 판정용 곡 시간)
+  const pressLane = useCallback(
+    (lane: number, time: number) => {
+      setPressedKeys((prev) => new Set(prev).add(lane))
+      const events = engineRef.current.press(lane, time)
+      // 맞춘 노트가 없으면 기본 타격음 (판정음과 키음은 judgment 이벤트에서)
+      if (!events.some((event) => event.judgment !== "miss" && event.part !== "tail")) {
+        getHitSounds().play("hit")
+      }
     },
-    [keyMode, currentKeyConfig],
+    [getHitSounds],
   )
 
-  // 키 입력 처리
-  const handleKeyDown = useCallback(
-    (event: KeyboardEvent) => {
-      if (gameState !== "playing") return
+  const releaseLane = useCallback((lane: number, time: number) => {
+    setPressedKeys((prev) => {
+      const newSet = new Set(prev)
+      newSet.delete(lane)
+      return newSet
+    })
+    engineRef.current.release(lane, time)
+  }, [])
 
-      const lane = currentKeyConfig.keyMap[event.code as keyof typeof currentKeyConfig.keyMap]
-      if (lane !== undefined && !pressedKeys.has(lane)) {
-        setPressedKeys((prev) => new Set(prev).add(lane))
-        checkNoteHit(lane)
-      }
+  // 레인 입력 처리 (키보드, 게임패드, 터치 공통)
+  const handleLanePress = useCallback(
+    ({ lane, timestamp }: LaneInputEvent) => {
+      // 자동 플레이 중에는 직접 입력을 받지 않는다
+      if (gameState !== "playing" || playModifiers?.autoPlay) return
+      pressLane(lane, getInputSongTime(timestamp))
     },
-    [gameState, pressedKeys, notes, currentKeyConfig],
+    [gameState, getInputSongTime, pressLane, playModifiers],
   )
 
-  const handleKeyUp = useCallback(
-    (event: KeyboardEvent) => {
-      const lane = currentKeyConfig.keyMap[event.code as keyof typeof currentKeyConfig.keyMap]
-      if (lane !== undefined) {
-        setPressedKeys((prev) => {
-          const newSet = new Set(prev)
-          newSet.delete(lane)
-          return newSet
-        })
+  const handleLaneRelease = useCallback(
+    ({ lane, timestamp }: LaneInputEvent) => {
+      if (gameState === "playing" && !playModifiers?.autoPlay) {
+        releaseLane(lane, getInputSongTime(timestamp))
+        return
       }
+      setPressedKeys((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(lane)
+        return newSet
+      })
     },
-    [currentKeyConfig],
+    [gameState, getInputSongTime, releaseLane, playModifiers],
   )
 
-  // 노트 히트 체크 (위치 기반)
-  const checkNoteHit = useCallback(
-    (lane: number) => {
-      // 해당 레인의 활성 노트들 중 판정선에 가장 가까운 노트 찾기
-      const laneNotes = notes.filter(
-        (note) =>
-          note.lane === lane &&
-          !note.hit &&
-          note.currentY > JUDGMENT_LINE_Y - GOOD_THRESHOLD &&
-          note.currentY < JUDGMENT_LINE_Y + GOOD_THRESHOLD,
-      )
-
-      if (laneNotes.length === 0) return
-
-      // 판정선에 가장 가까운 노트 선택
-      const closestNote = laneNotes.reduce((closest, note) => {
-        const currentDistance = Math.abs(note.currentY - JUDGMENT_LINE_Y)
-        const closestDistance = Math.abs(closest.currentY - JUDGMENT_LINE_Y)
-        return currentDistance < closestDistance ? note : closest
+  // 부드러운 애니메이션 루프
+  const gameLoop = useCallback(
+    () => {
+      // 음악과 동기화된 곡 시간 (판정은 입력 오프셋, 화면 표시는 화면 오프셋 반영)
+      const audioEngine = getAudioEngine()
+      const audioTime = audioEngine.getSongTime()
+      const songTime = audioTime - calibration.audioOffset * audioEngine.playbackRate
+      const renderTime = audioTime + calibration.visualOffset * audioEngine.playbackRate
+
+      // 지나간 노트 MISS, 롱노트 홀드 틱 처리 (끝나면 finish 이벤트로 결과 화면)
+      const engine = engineRef.current
+      // 자동 플레이: 이번 프레임까지 도달한 입력을 직접 누른 것처럼 넣는다
+      autoPlayerRef.current?.take(songTime).forEach(([time, lane, pressed]) => {
+        if (pressed) pressLane(lane, time)
+        else releaseLane(lane, time)
+      })
+      engine.tick(songTime)
+
+      // 화면에 보이는 노트만 그리기
+      rendererRef.current?.render({
+        time: renderTime,
+        timeline: timelineRef.current,
+        notes: engine.notes,
+        pressedLanes: pressedKeys,
       })
 
-      const distance = Math.abs(closestNote.currentY - JUDGMENT_LINE_Y)
-
-      let judgmentText = ""
-      let judgmentColor = ""
-      let scoreAdd = 0
-
-      if (distance < PERFECT_THRESHOLD) {
-        judgmentText = "PERFECT!"
-        judgmentColor = "text-yellow-400"
-        scoreAdd = 1000
-        setStats((prev) => ({
-          ...prev,
-          perfect: prev.perfect + 1,
-          combo: prev.combo + 1,
-          score: prev.score + scoreAdd * Math.max(1, Math.floor(prev.combo / 10) + 1),
-        }))
-      } else if (distance < GOOD_THRESHOLD) {
-        judgmentText = "GOOD"
-        judgmentColor = "text-green-400"
-        scoreAdd = 500
-        setStats((prev) => ({
-          ...prev,
-          good: prev.good + 1,
-          combo: prev.combo + 1,
-          score: prev.score + scoreAdd * Math.max(1, Math.floor(prev.combo / 10) + 1),
-        }))
-      }
-
-      if (judgmentText) {
-        setJudgment({ text: judgmentText, color: judgmentColor })
-        setTimeout(() => setJudgment(null), 500)
-
-        // 노트 제거 애니메이션
-        const element = notesMapRef.current.get(closestNote.id)
-        if (element) {
-          element.style.transform = `translateY(${closestNote.currentY}px) scale(1.3) rotate(15deg)`
-          element.style.opacity = "0"
-          setTimeout(() => {
-            if (element.parentNode) {
-              element.remove()
-            }
-            notesMapRef.current.delete(closestNote.id)
-          }, 200)
-        }
-
-        setNotes((prev) => prev.map((note) => (note.id === closestNote.id ? { ...note, hit: true } : note)))
+      // 연습 모드는 구간이 끝나도 다음 회차로 이어진다
+      if (gameState === "playing" && (!engine.isFinished || practice)) {
+        animationRef.current = requestAnimationFrame(gameLoop)
       }
     },
-    [notes],
+    [gameState, pressedKeys, calibration, getAudioEngine, pressLane, releaseLane, practice],
   )
 
-  // 부드러운 애니메이션 루프
-  const gameLoop = useCallback(
-    (timestamp: number) => {
-      if (!startTimeRef.current) {
-        startTimeRef.current = timestamp - pauseTimeRef.current
-      }
+  // 미리듣기 정지
+  const stopPreview = useCallback(() => {
+    if (previewTimerRef.current) {
+      clearTimeout(previewTimerRef.current)
+      previewTimerRef.current = null
+    }
+    audioEngineRef.current?.stop()
+    setPreviewSongId(null)
+  }, [])
 
-      const elapsed = timestamp - startTimeRef.current
+  // 곡 미리듣기 재생/정지
+  const togglePreview = async (song: SongEntry) => {
+    const wasPreviewing = previewSongId === song.id
+    stopPreview()
+    const audioUrl = getSongAudioUrl(song)
+    if (wasPreviewing || !audioUrl) return
+
+    const preview = song.preview ?? { start: 0, duration: 10000 }
+    try {
+      const audioEngine = getAudioEngine()
+      setPreviewSongId(song.id)
+      await audioEngine.load(audioUrl)
+      await audioEngine.start(preview.start)
+      previewTimerRef.current = setTimeout(stopPreview, preview.duration)
+    } catch (error) {
+      setPreviewSongId(null)
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 라이브러리 곡의 채보 선택
+  const selectSongChart = async (song: SongEntry, mode: KeyMode, diff: Difficulty) => {
+    try {
+      const loadedChart = await loadSongChart(song, mode, diff)
+      setChart(loadedChart)
+      setSelectedSongId(song.id)
+      setKeyMode(mode)
+      setDifficulty(diff)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
 
-      // 노트 위치 업데이트
-      setNotes((prevNotes) => {
-        return prevNotes.map((note) => {
-          if (note.hit) return note
+  // 랜덤 생성 선택
+  const selectRandom = () => {
+    setChart(null)
+    setSelectedSongId(null)
+  }
 
-          const noteTime = elapsed - note.startTime
-          // 배속 적용
-          const newY = (noteTime / 1000) * BASE_NOTE_SPEED * speedMultiplier * currentDifficultyConfig.speedMultiplier
+  // 채보 파일 불러오기 (BMS, osu!mania는 변환하고, 함께 선택한 음원과 키음 파일을 채보에 연결)
+  const loadChartFiles = async (files: File[]) => {
+    const chartFile = files.find((file) => isChartFileName(file.name))
+    if (!chartFile) {
+      toast.error(`채보 파일을 찾을 수 없습니다 (${CHART_FILE_EXTENSIONS.join(", ")})`)
+      return
+    }
+    try {
+      const imported = importChart(chartFile.name, await readChartFileText(chartFile))
+      const assets = files.filter((file) => file !== chartFile)
+      // JSON 채보만 선택했으면 적힌 키음 경로를 그대로 쓴다
+      const resolved =
+        assets.length > 0 || !chartFile.name.toLowerCase().endsWith(".json")
+          ? resolveChartAssets(imported.chart, assets)
+          : { chart: imported.chart, audioFile: null, missingSounds: [] }
+      const loadedChart = resolved.chart
+      setChart(loadedChart)
+      setSelectedSongId(null)
+      setKeyMode(loadedChart.meta.keyMode)
+      setDifficulty(loadedChart.meta.difficulty)
+      if (resolved.audioFile) setAudioFile(resolved.audioFile)
+
+      const notices: string[] = []
+      if (imported.columns !== loadedChart.meta.keyMode) {
+        notices.push(`${imported.columns}키 → ${loadedChart.meta.keyMode}키 (빈 레인 추가)`)
+      }
+      if (imported.droppedNotes > 0) notices.push(`겹친 노트 ${imported.droppedNotes}개 제외`)
+      if (resolved.missingSounds.length > 0) notices.push(`키음 파일 ${resolved.missingSounds.length}개 없음`)
+      if (loadedChart.meta.audio && !resolved.audioFile && assets.length > 0) {
+        notices.push(`음원 ${loadedChart.meta.audio} 없음`)
+      }
+      toast(
+        `채보 로드: ${loadedChart.meta.title} - ${loadedChart.meta.artist}`,
+        notices.length > 0 ? { description: notices.join(", ") } : undefined,
+      )
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
 
-          return { ...note, currentY: newY }
-        })
+  // 선택한 음악 파일을 분석하여 현재 키 모드, 난이도, 시드로 채보 생성
+  const generateAudioChart = async () => {
+    if (!audioFile) return
+    setAnalyzingAudio(true)
+    try {
+      const buffer = await getAudioEngine().load(audioFile)
+      const analysis = await analyzeAudio(buffer)
+      const generated = generateChartFromAudio(analysis, {
+        keyMode,
+        difficulty,
+        seed,
+        title: audioFile.name.replace(/\.[^.]+$/, ""),
+        artist: "자동 생성",
       })
+      if (generated.notes.length === 0) {
+        throw new Error("음악에서 박자를 찾지 못했습니다")
+      }
+      setChart(generated)
+      setSelectedSongId(null)
+      toast(`채보 생성: ${analysis.bpm} BPM, 노트 ${generated.notes.length}개`)
+    } catch (error) {
+      toast.error((error as Error).message)
+    } finally {
+      setAnalyzingAudio(false)
+    }
+  }
 
-      // DOM 요소 위치 업데이트
-      notes.forEach((note) => {
-        if (note.hit) return
+  // 연습 구간 한 회차 시작 (음악은 구간 끝에서 멈추고, 판정은 구간 끝이 지나면 끝난다)
+  const startPracticeLoop = useCallback(
+    async (session: PracticeSession) => {
+      const { range, leadIn } = session
+      await getAudioEngine().start(range.start - leadIn, range.end)
+      const hitSounds = getHitSounds()
+      bgmRef.current.forEach(({ sound, time }) => {
+        if (time >= range.start - leadIn && time < range.end) hitSounds.scheduleKeysound(sound, time)
+      })
+      const engine = engineRef.current
+      engine.load(engine.notes, undefined, undefined, range.end)
+      autoPlayerRef.current?.rewind()
+      rendererRef.current?.clearEffects()
+    },
+    [getAudioEngine, getHitSounds],
+  )
 
-        const element = notesMapRef.current.get(note.id)
-        if (element && note.currentY > -100 && note.currentY < GAME_HEIGHT + 100) {
-          element.style.transform = `translateY(${note.currentY}px)`
+  // 게임 시작 (테스트 플레이는 요청의 채보와 음원으로 시작 지점부터, 연습은 고른 구간을 반복)
+  const startGame = useCallback(
+    async (request?: TestPlayRequest, practiceSession?: PracticeSession) => {
+      stopPreview()
+
+      // 라이브러리 곡은 곡 음원, 그 외에는 직접 선택한 음악 파일
+      const audioEngine = getAudioEngine()
+      const playChart = request ? request.chart : chart
+      const audioSource = request
+        ? request.audio
+        : selectedSong
+          ? getSongAudioUrl(selectedSong, chart ?? undefined)
+          : audioFile
+      if (audioSource) {
+        try {
+          await audioEngine.load(audioSource)
+        } catch {
+          toast.error("음악 파일을 불러올 수 없습니다")
+          return
         }
+      } else {
+        audioEngine.unload()
+      }
 
-        // Miss 체크
-        if (note.currentY > JUDGMENT_LINE_Y + GOOD_THRESHOLD && !note.hit) {
-          setStats((prev) => ({
-            ...prev,
-            miss: prev.miss + 1,
-            combo: 0,
-            maxCombo: Math.max(prev.maxCombo, prev.combo),
-          }))
-
-          // Miss 애니메이션
-          if (element) {
-            element.style.opacity = "0.3"
-            element.style.transform = `translateY(${note.currentY}px) scale(0.8)`
-            setTimeout(() => {
-              if (element.parentNode) {
-                element.remove()
-              }
-              notesMapRef.current.delete(note.id)
-            }, 300)
-          }
-
-          setNotes((prev) => prev.map((n) => (n.id === note.id ? { ...n, hit: true } : n)))
+      // 채보 키음 (라이브러리 곡은 곡 폴더 기준 경로, 그 외에는 적힌 경로 그대로)
+      const hitSounds = getHitSounds()
+      hitSounds.clearKeysounds()
+      if (playChart?.meta.sounds) {
+        const failed = await hitSounds.loadKeysounds(playChart.meta.sounds, (file) =>
+          selectedSong && !request ? getSongFileUrl(selectedSong, file) : file,
+        )
+        if (failed.length > 0) {
+          toast.warning(`키음 ${failed.length}개를 불러오지 못해 기본 타격음으로 재생합니다`)
         }
-      })
-
-      // 새로운 노트 생성
-      const activeNotes = notes.filter((note) => {
-        return note.currentY > -150 && note.currentY < GAME_HEIGHT + 100 && !note.hit
-      })
+      }
 
-      activeNotes.forEach((note) => {
-        if (!notesMapRef.current.has(note.id) && gameAreaRef.current) {
-          const element = createNoteElement(note)
-          gameAreaRef.current.appendChild(element)
-          notesMapRef.current.set(note.id, element)
+      // 채보가 있으면 채보 노트, 없으면 랜덤 노트
+      let newNotes: Note[]
+      if (playChart) {
+        newNotes = chartToNotes(playChart, noteIdRef.current)
+        noteIdRef.current += newNotes.length
+        if (request) {
+          newNotes = newNotes.filter((note) => note.startTime >= request.startTime)
         }
-      })
-
-      // 화면 밖 노트 정리
-      notesMapRef.current.forEach((element, noteId) => {
-        const note = notes.find((n) => n.id === noteId)
-        if (!note || note.currentY > GAME_HEIGHT + 100) {
-          if (element.parentNode) {
-            element.remove()
-          }
-          notesMapRef.current.delete(noteId)
+      } else {
+        newNotes = generateNotes({ keyMode, difficulty, seed, firstId: noteIdRef.current })
+        noteIdRef.current += newNotes.length
+      }
+      if (practiceSession) {
+        newNotes = getPracticeNotes(newNotes, practiceSession.range)
+      }
+      // 레인 배치 옵션 (랜덤 배치 시드는 리플레이에 기록)
+      const applied = createAppliedModifiers(modifiers)
+      newNotes = applyLaneModifier(newNotes, playChart ? playChart.meta.keyMode : keyMode, applied.lanes, applied.seed)
+      setPlayModifiers(applied)
+      // 연습 중에는 게이지가 비어도 멈추지 않는다
+      const gaugeSettings = getGaugeSettings(applied)
+      engineRef.current.load(newNotes, rulesetId, practiceSession ? { ...gaugeSettings, noFail: true } : gaugeSettings)
+      autoPlayerRef.current = applied.autoPlay
+        ? new AutoPlayer(engineRef.current.notes, { jitter: applied.autoPlayJitter, seed: applied.seed })
+        : null
+      const timing = playChart ? getChartTiming(playChart) : undefined
+      timelineRef.current = createNoteTimeline(engineRef.current.notes, timing)
+      bgmRef.current =
+        playChart?.bgm && timing
+          ? playChart.bgm.map((event) => ({ sound: event.sound, time: timing.beatToTime(event.beat) }))
+          : []
+      recordSavedRef.current = false
+      setPractice(practiceSession ?? null)
+      setPracticeLoops([])
+
+      if (practiceSession) {
+        // 재생 속도가 1이 아니면 연습 구간의 음원을 음 높이를 유지한 채 늘여 둔다
+        const { range, leadIn, rate } = practiceSession
+        audioEngine.setPlaybackRate(rate, { start: range.start - leadIn, end: range.end })
+        try {
+          await startPracticeLoop(practiceSession)
+        } catch {
+          toast.error("연습 구간을 재생할 수 없습니다")
+          audioEngine.setPlaybackRate(1)
+          return
         }
-      })
+        setGameState("playing")
+        toast(`연습: ${(range.start / 1000).toFixed(1)}초 ~ ${(range.end / 1000).toFixed(1)}초, ${rate.toFixed(2)}x`)
+        return
+      }
 
-      if (gameState === "playing") {
-        animationRef.current = requestAnimationFrame(gameLoop)
+      audioEngine.setPlaybackRate(1)
+      rendererRef.current?.clearEffects()
+      await audioEngine.start(request ? request.startTime - TEST_PLAY_LEAD_IN : 0)
+      bgmRef.current.forEach(({ sound, time }) => hitSounds.scheduleKeysound(sound, time))
+      setGameState("playing")
+
+      if (request) {
+        toast(`테스트 플레이: ${(request.startTime / 1000).toFixed(2)}초부터`)
+        return
       }
+      toast(
+        `${chart ? chart.meta.title : `Random #${seed}`} | ${keyMode}키 ${currentDifficultyConfig.name} 모드, 배속: ${speedMultiplier}x`,
+      )
     },
-    [gameState, notes, createNoteElement, speedMultiplier, difficulty],
+    [
+      stopPreview,
+      getAudioEngine,
+      getHitSounds,
+      startPracticeLoop,
+      selectedSong,
+      chart,
+      audioFile,
+      keyMode,
+      difficulty,
+      rulesetId,
+      modifiers,
+      seed,
+      currentDifficultyConfig,
+      speedMultiplier,
+    ],
   )
 
-  // 게임 시작
-  const startGame = () => {
-    // 기존 노트 정리
-    notesMapRef.current.forEach((element) => {
-      if (element.parentNode) {
-        element.remove()
-      }
-    })
-    notesMapRef.current.clear()
-
-    const newNotes = generateNotes()
-    setNotes(newNotes)
-    setStats({
-      score: 0,
-      combo: 0,
-      maxCombo: 0,
-      perfect: 0,
-      good: 0,
-      miss: 0,
-    })
-    startTimeRef.current = 0
-    pauseTimeRef.current = 0
-    setGameState("playing")
-
-    toast(`${keyMode}키 ${currentDifficultyConfig.name} 모드, 배속: ${speedMultiplier}x`);
-  }
-
   // 게임 일시정지/재개
-  const togglePause = () => {
+  const togglePause = async () => {
+    const audioEngine = getAudioEngine()
     if (gameState === "playing") {
       setGameState("paused")
-      if (startTimeRef.current) {
-        pauseTimeRef.current = performance.now() - startTimeRef.current
-      }
+      await audioEngine.pause()
     } else if (gameState === "paused") {
+      await audioEngine.resume()
       setGameState("playing")
-      startTimeRef.current = 0
     }
   }
 
-  // 게임 재시작
+  // 게임 재시작 (연습 중이었으면 연습 구간 선택 화면으로)
   const resetGame = () => {
     setGameState("menu")
-    setNotes([])
-    startTimeRef.current = 0
-    pauseTimeRef.current = 0
-
-    // 모든 노트 DOM 요소 정리
-    notesMapRef.current.forEach((element) => {
-      if (element.parentNode) {
-        element.remove()
-      }
-    })
-    notesMapRef.current.clear()
+    setTestPlay(null)
+    audioEngineRef.current?.stop()
+    audioEngineRef.current?.setPlaybackRate(1)
 
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current)
     }
   }
 
-  // 이벤트 리스너 등록
+  // 리플레이 보기 화면 열기
+  const openReplay = async (replay: Replay) => {
+    try {
+      const replayChart = await loadReplayChart(replay, songs)
+      resetGame()
+      stopPreview()
+      setReplayView({
+        replay,
+        notes: getReplayNotes(replay, replayChart),
+        timing: replayChart ? getChartTiming(replayChart) : undefined,
+      })
+      setMenuView("replay")
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 리플레이 파일 불러오기
+  const loadReplayFile = async (file: File) => {
+    try {
+      await openReplay(parseReplayJson(await file.text()))
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 리플레이를 파일로 내보내기
+  const exportReplay = (replay: Replay) => {
+    const blob = new Blob([serializeReplay(replay)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = getReplayFileName(replay)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // 입력 관리자 등록
   useEffect(() => {
-    window.addEventListener("keydown", handleKeyDown)
-    window.addEventListener("keyup", handleKeyUp)
+    const inputManager = new InputManager()
+    inputManagerRef.current = inputManager
+    inputManager.attach()
 
     return () => {
-      window.removeEventListener("keydown", handleKeyDown)
-      window.removeEventListener("keyup", handleKeyUp)
+      inputManager.detach()
+      inputManagerRef.current = null
     }
-  }, [handleKeyDown, handleKeyUp])
+  }, [])
+
+  useEffect(() => {
+    inputManagerRef.current?.configure({
+      laneCount: keyMode,
+      keyMap: currentKeyMap,
+      gamepadLanes: gamepadBindings[keyMode],
+    })
+  }, [keyMode, currentKeyMap, gamepadBindings])
+
+  useEffect(() => {
+    inputManagerRef.current?.setHandlers({ onPress: handleLanePress, onRelease: handleLaneRelease })
+  }, [handleLanePress, handleLaneRelease])
+
+  // 게임 영역 터치 입력 (플레이 중에만, 일시정지 화면의 버튼은 그대로 눌리도록)
+  useEffect(() => {
+    inputManagerRef.current?.setPointerTarget(gameState === "playing" ? gameAreaRef.current : null)
+  }, [gameState])
+
+  // 게임 엔진 구독 (통계 갱신, 판정 효과, 끝나면 결과 화면으로)
+  useEffect(() => {
+    const engine = engineRef.current
+    const unsubscribes = [
+      engine.on("stats", setStats),
+      engine.on("gauge", setGauge),
+      engine.on("judgment", (event) => {
+        const audioEngine = getAudioEngine()
+        const renderTime = audioEngine.getSongTime() + calibration.visualOffset * audioEngine.playbackRate
+        rendererRef.current?.addEffect(event, renderTime)
+
+        // 놓친 노트는 알림음 (롱노트는 꼬리에서 한 번), 맞춘 노트는 키음이 있으면 키음, 없으면 판정음
+        const hitSounds = getHitSounds()
+        if (event.judgment === "miss") {
+          if (event.part !== "head") hitSounds.play("miss")
+        } else if (event.part !== "tail") {
+          const index = timelineRef.current.indexById.get(event.noteId)
+          const sound = index !== undefined ? timelineRef.current.notes[index].sound : undefined
+          if (!sound || !hitSounds.playKeysound(sound)) {
+            hitSounds.play(JUDGMENT_SOUNDS[event.judgment])
+          }
+        }
+      }),
+      engine.on("finish", (finalStats) => {
+        // 연습 모드는 회차 정확도를 남기고 같은 구간을 다시 시작한다
+        if (practice) {
+          setPracticeLoops((prev) => [...prev, getAccuracy(finalStats)])
+          startPracticeLoop(practice).catch(() => {
+            // 다음 회차를 시작하지 못하면 연습 구간 선택 화면으로
+            toast.error("연습 구간을 재생할 수 없습니다")
+            const audioEngine = getAudioEngine()
+            audioEngine.stop()
+            audioEngine.setPlaybackRate(1)
+            setMenuView("practice")
+            setGameState("menu")
+          })
+          return
+        }
+        getAudioEngine().stop()
+        setGameState("ended")
+      }),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [getAudioEngine, getHitSounds, calibration, practice, startPracticeLoop])
+
+  // 채널별 음량 적용
+  useEffect(() => {
+    getAudioEngine().setVolumes(volumes)
+  }, [getAudioEngine, volumes])
+
+  // 게임 화면 렌더러 (게임 영역이 보이는 동안, 키 모드나 배속이 바뀌면 새로 만든다)
+  const isGameVisible = gameState === "playing" || gameState === "paused"
+  useEffect(() => {
+    if (!isGameVisible || !canvasRef.current) return
+    const renderer = new CanvasRenderer(canvasRef.current, {
+      keyMode,
+      scrollSpeed,
+      visibility: playModifiers ?? undefined,
+      beatLines: playModifiers?.beatLines,
+    })
+    rendererRef.current = renderer
+    return () => {
+      renderer.dispose()
+      rendererRef.current = null
+    }
+  }, [isGameVisible, keyMode, scrollSpeed, playModifiers])
 
   // 게임 루프 시작
   useEffect(() => {
@@ -514,15 +764,133 @@ export default function RhythmGame() {
     }
   }, [gameState, gameLoop])
 
+  // 게임이 끝나면 플레이 기록과 리플레이 저장
+  useEffect(() => {
+    // 테스트 플레이, 연습, 자동 플레이는 기록하지 않는다
+    if (gameState !== "ended" || recordSavedRef.current || testPlay || practice || playModifiers?.autoPlay) return
+    recordSavedRef.current = true
+    const timestamp = Date.now()
+    const title = chart ? chart.meta.title : `Random #${seed}`
+    setPlayHistory(
+      savePlayRecord({
+        chartId: currentChartId,
+        title,
+        timestamp,
+        keyMode,
+        difficulty,
+        speedMultiplier,
+        stats,
+        gauge: engineRef.current.gauge,
+        modifiers: playModifiers ?? undefined,
+      }),
+    )
+    setLastReplay({
+      version: REPLAY_FORMAT_VERSION,
+      chartId: currentChartId,
+      title,
+      // 라이브러리 곡은 곡 ID, 파일 채보는 채보 전체, 랜덤은 시드를 담는다
+      ...(selectedSong
+        ? { songId: selectedSong.id }
+        : chart
+          ? { chart }
+          : { seed }),
+      keyMode,
+      difficulty,
+      speedMultiplier,
+      recordedAt: timestamp,
+      modifiers: playModifiers ?? undefined,
+      stats: engineRef.current.stats,
+      inputs: [...engineRef.current.recordedInputs],
+    })
+  }, [
+    gameState,
+    currentChartId,
+    chart,
+    selectedSong,
+    seed,
+    keyMode,
+    difficulty,
+    speedMultiplier,
+    stats,
+    testPlay,
+    practice,
+    playModifiers,
+  ])
+
+  // 흔들림 없는 자동 플레이가 끝나면 모든 판정이 최고 판정인지 확인 (채보 검증)
+  useEffect(() => {
+    if (gameState !== "ended" || !playModifiers?.autoPlay || playModifiers.autoPlayJitter > 0) return
+    const engine = engineRef.current
+    const expected = getPerfectStats(engine.notes, engine.ruleset)
+    if (isSameStats(engine.stats, expected)) {
+      toast.success(`자동 플레이 검증 통과: ${expected.score.toLocaleString()}점`)
+    } else {
+      toast.warning(
+        `자동 플레이 검증 실패: ${engine.stats.score.toLocaleString()}점 (기대 ${expected.score.toLocaleString()}점)`,
+        { description: "정확히 쳐도 최고 판정을 받을 수 없는 노트가 있습니다" },
+      )
+    }
+  }, [gameState, playModifiers])
+
+  // 메인 메뉴에서 한동안 입력이 없으면 데모 (미리듣기나 음악 분석 중에는 기다린다)
+  useEffect(() => {
+    if (gameState !== "menu" || menuView !== "main" || showDemo || previewSongId || analyzingAudio) return
+    let timer = setTimeout(() => setShowDemo(true), ATTRACT_DELAY)
+    const resetTimer = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => setShowDemo(true), ATTRACT_DELAY)
+    }
+    const events = ["pointerdown", "pointermove", "keydown", "wheel"] as const
+    events.forEach((type) => window.addEventListener(type, resetTimer))
+    return () => {
+      clearTimeout(timer)
+      events.forEach((type) => window.removeEventListener(type, resetTimer))
+    }
+  }, [gameState, menuView, showDemo, previewSongId, analyzingAudio])
+
+  const closeDemo = useCallback(() => setShowDemo(false), [])
+
+  // 저장된 플레이 기록과 키 설정 불러오기
+  useEffect(() => {
+    setPlayHistory(loadPlayHistory())
+    setKeyBindings(loadKeyBindings())
+    setGamepadBindings(loadGamepadBindings())
+    setCalibration(loadCalibration())
+    setVolumes(loadVolumes())
+    setModifiers(loadModifiers())
+    setPracticeSettings(loadPracticeSettings())
+    const savedRulesetId = loadRulesetId()
+    setRulesetId(savedRulesetId)
+    setStats(createInitialStats(savedRulesetId))
+    setPendingTestPlay(takeTestPlayRequest())
+    const initialSeed = createSeed()
+    setSeed(initialSeed)
+    setSeedInput(initialSeed.toString())
+  }, [])
+
+  // 에디터에서 넘어온 테스트 플레이 바로 시작
+  useEffect(() => {
+    if (!pendingTestPlay) return
+    setPendingTestPlay(null)
+    setTestPlay(pendingTestPlay)
+    setChart(pendingTestPlay.chart)
+    setSelectedSongId(null)
+    setKeyMode(pendingTestPlay.chart.meta.keyMode)
+    setDifficulty(pendingTestPlay.chart.meta.difficulty)
+    startGame(pendingTestPlay)
+  }, [pendingTestPlay, startGame])
+
+  // 곡 목록 불러오기
+  useEffect(() => {
+    loadSongLibrary()
+      .then(setSongs)
+      .catch((error: Error) => toast.error(error.message))
+  }, [])
+
   // 컴포넌트 언마운트 시 정리
   useEffect(() => {
     return () => {
-      notesMapRef.current.forEach((element) => {
-        if (element.parentNode) {
-          element.remove()
-        }
-      })
-      notesMapRef.current.clear()
+      audioEngineRef.current?.dispose()
     }
   }, [])
 
@@ -536,7 +904,7 @@ export default function RhythmGame() {
           <p className="text-lg text-gray-300">키보드를 사용하여 떨어지는 노트를 맞춰보세요!</p>
         </div>
 
-        {gameState === "menu" && (
+        {gameState === "menu" && menuView === "main" && (
           <Card className="bg-gray-900 border-gray-700">
             <CardHeader className="text-center">
               <CardTitle className="flex items-center justify-center gap-2 text-white">
@@ -546,13 +914,28 @@ export default function RhythmGame() {
               <CardDescription className="text-gray-300">리듬에 맞춰 키를 눌러 높은 점수를 획득하세요!</CardDescription>
             </CardHeader>
             <CardContent className="text-center space-y-6">
+              {/* 곡 선택 */}
+              <SongSelect
+                songs={songs}
+                selectedSongId={selectedSongId}
+                keyMode={keyMode}
+                difficulty={difficulty}
+                seed={seed}
+                previewSongId={previewSongId}
+                bests={personalBests}
+                onSelectRandom={selectRandom}
+                onSelectChart={selectSongChart}
+                onTogglePreview={togglePreview}
+              />
+
               {/* 키 모드 선택 */}
               <div className="flex items-center justify-center gap-3 mb-4">
                 <Keyboard className="w-5 h-5 text-gray-400" />
                 <span className="text-gray-300">키 모드:</span>
                 <Select
+                  disabled={chart !== null}
                   value={keyMode.toString()}
-                  onValueChange={(value) => setKeyMode(Number.parseInt(value) as 4 | 6 | 8)}
+                  onValueChange={(value) => setKeyMode(Number.parseInt(value) as KeyMode)}
                 >
                   <SelectTrigger className="w-[120px] bg-gray-800 border-gray-600 text-white">
                     <SelectValue placeholder="4키" />
@@ -570,8 +953,9 @@ export default function RhythmGame() {
                 <Target className="w-5 h-5 text-gray-400" />
                 <span className="text-gray-300">난이도:</span>
                 <Select
+                  disabled={chart !== null}
                   value={difficulty}
-                  onValueChange={(value) => setDifficulty(value as "easy" | "normal" | "hard")}
+                  onValueChange={(value) => setDifficulty(value as Difficulty)}
                 >
                   <SelectTrigger className="w-[120px] bg-gray-800 border-gray-600 text-white">
                     <SelectValue placeholder="Normal" />
@@ -590,22 +974,183 @@ export default function RhythmGame() {
                 </Select>
               </div>
 
+              {/* 랜덤 채보 시드 */}
+              {chart === null && (
+                <div className="flex items-center justify-center gap-3 mb-4">
+                  <Hash className="w-5 h-5 text-gray-400" />
+                  <span className="text-gray-300">시드:</span>
+                  <input
+                    value={seedInput}
+                    inputMode="numeric"
+                    onChange={(event) => {
+                      setSeedInput(event.target.value)
+                      const parsed = parseSeed(event.target.value)
+                      if (parsed !== null) setSeed(parsed)
+                    }}
+                    onBlur={() => setSeedInput(seed.toString())}
+                    className={cn(
+                      "w-[140px] rounded-md border bg-gray-800 px-3 py-2 text-sm text-white",
+                      parseSeed(seedInput) === null ? "border-red-500" : "border-gray-600",
+                    )}
+                  />
+                  <Button
+                    onClick={() => {
+                      const newSeed = createSeed()
+                      setSeed(newSeed)
+                      setSeedInput(newSeed.toString())
+                    }}
+                    variant="outline"
+                    size="icon"
+                    className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                  >
+                    <Dices className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
               {/* 키 레이아웃 표시 */}
               <div
                 className={`grid gap-4 mb-6 ${keyMode === 4 ? "grid-cols-4" : keyMode === 6 ? "grid-cols-6" : "grid-cols-8"}`}
               >
-                {currentKeyConfig.keys.map((key, index) => (
+                {currentLaneKeys.map((codes, index) => (
                   <div key={index} className="text-center">
                     <div
                       className={`w-12 h-12 mx-auto rounded-lg ${currentKeyConfig.colors[index]} flex items-center justify-center text-lg font-bold mb-2 shadow-lg`}
                     >
-                      {key}
+                      {getLaneLabel(codes)}
                     </div>
                     <p className="text-xs text-gray-400">레인 {index + 1}</p>
                   </div>
                 ))}
               </div>
 
+              {/* 채보 파일 선택 */}
+              <div className="flex items-center justify-center gap-3 mb-4">
+                <FileMusic className="w-5 h-5 text-gray-400" />
+                <span className="text-gray-300">채보 파일:</span>
+                <label className="cursor-pointer rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-sm text-white hover:bg-gray-700 max-w-[240px] truncate">
+                  {chart && !selectedSong ? `${chart.meta.title} - ${chart.meta.artist}` : "파일 선택 (선택 사항)"}
+                  <input
+                    type="file"
+                    accept={[...CHART_FILE_EXTENSIONS, "application/json", "audio/*"].join(",")}
+                    multiple
+                    className="hidden"
+                    onChange={(event) => {
+                      const files = Array.from(event.target.files ?? [])
+                      if (files.length > 0) loadChartFiles(files)
+                      event.target.value = ""
+                    }}
+                  />
+                </label>
+                {chart && !selectedSong && (
+                  <Button
+                    onClick={selectRandom}
+                    variant="ghost"
+                    size="icon"
+                    className="text-gray-400 hover:bg-gray-800 hover:text-white"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {/* 리플레이 파일 불러오기 */}
+              <div className="flex items-center justify-center gap-3 mb-4">
+                <Film className="w-5 h-5 text-gray-400" />
+                <span className="text-gray-300">리플레이:</span>
+                <label className="cursor-pointer rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-sm text-white hover:bg-gray-700">
+                  파일 열기
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0]
+                      if (file) loadReplayFile(file)
+                      event.target.value = ""
+                    }}
+                  />
+                </label>
+              </div>
+
+              {/* 음악 파일 선택 (라이브러리 곡은 곡 음원 사용) */}
+              {!selectedSong && (
+                <div className="flex items-center justify-center gap-3 mb-4">
+                  <Music className="w-5 h-5 text-gray-400" />
+                  <span className="text-gray-300">음악:</span>
+                  <label className="cursor-pointer rounded-md border border-gray-600 bg-gray-800 px-3 py-2 text-sm text-white hover:bg-gray-700 max-w-[240px] truncate">
+                    {audioFile ? audioFile.name : "파일 선택 (선택 사항)"}
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      onChange={(event) => setAudioFile(event.target.files?.[0] ?? null)}
+                    />
+                  </label>
+                  {audioFile && (
+                    <Button
+                      onClick={generateAudioChart}
+                      disabled={analyzingAudio}
+                      variant="outline"
+                      size="sm"
+                      className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                    >
+                      {analyzingAudio ? (
+                        <LoaderCircle className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <AudioWaveform className="w-4 h-4 mr-1" />
+                      )}
+                      {analyzingAudio ? "분석 중" : "음악에 맞춰 채보 생성"}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* 음량 */}
+              <VolumeSettings
+                volumes={volumes}
+                onChange={(newVolumes) => {
+                  setVolumes(newVolumes)
+                  saveVolumes(newVolumes)
+                }}
+              />
+
+              {/* 플레이 옵션 */}
+              <ModifierSettings
+                modifiers={modifiers}
+                onChange={(newModifiers) => {
+                  setModifiers(newModifiers)
+                  saveModifiers(newModifiers)
+                }}
+              />
+
+              {/* 판정 규칙 선택 */}
+              <div className="flex items-center justify-center gap-3 mt-4 mb-4">
+                <Crosshair className="w-5 h-5 text-gray-400" />
+                <span className="text-gray-300">판정:</span>
+                <Select
+                  value={rulesetId}
+                  onValueChange={(value) => {
+                    const id = value as RulesetId
+                    setRulesetId(id)
+                    saveRulesetId(id)
+                    setStats(createInitialStats(id))
+                  }}
+                >
+                  <SelectTrigger className="w-[120px] bg-gray-800 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600 text-white">
+                    {(Object.keys(RULESETS) as RulesetId[]).map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {RULESETS[id].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-gray-400">{currentRuleset.description}</span>
+              </div>
+
               {/* 배속 선택 UI */}
               <div className="flex items-center justify-center gap-3 mb-6">
                 <FastForward className="w-5 h-5 text-gray-400" />
@@ -633,14 +1178,134 @@ export default function RhythmGame() {
                 </Select>
               </div>
 
-              <Button onClick={startGame} size="lg" className="bg-purple-600 hover:bg-purple-700 shadow-lg">
-                <Play className="w-5 h-5 mr-2" />
-                게임 시작
-              </Button>
+              <div className="flex justify-center gap-3">
+                <Button onClick={() => startGame()} size="lg" className="bg-purple-600 hover:bg-purple-700 shadow-lg">
+                  <Play className="w-5 h-5 mr-2" />
+                  게임 시작
+                </Button>
+                <Button
+                  onClick={() => {
+                    stopPreview()
+                    setPractice(null)
+                    setMenuView("practice")
+                  }}
+                  size="lg"
+                  variant="outline"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <Repeat className="w-5 h-5 mr-2" />
+                  연습 모드
+                </Button>
+                <Button
+                  onClick={() => setMenuView("keyBindings")}
+                  size="lg"
+                  variant="outline"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <Keyboard className="w-5 h-5 mr-2" />키 설정
+                </Button>
+                <Button
+                  onClick={() => {
+                    stopPreview()
+                    setShowDemo(true)
+                  }}
+                  size="lg"
+                  variant="outline"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <MonitorPlay className="w-5 h-5 mr-2" />
+                  데모
+                </Button>
+                <Button
+                  onClick={() => {
+                    stopPreview()
+                    setMenuView("calibration")
+                  }}
+                  size="lg"
+                  variant="outline"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <Timer className="w-5 h-5 mr-2" />
+                  오프셋 보정
+                </Button>
+                <Link href="/editor" onClick={stopPreview}>
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                  >
+                    <PencilRuler className="w-5 h-5 mr-2" />
+                    채보 에디터
+                  </Button>
+                </Link>
+              </div>
+              {(calibration.audioOffset !== 0 || calibration.visualOffset !== 0) && (
+                <p className="text-xs text-gray-400">
+                  입력 오프셋 {calibration.audioOffset}ms · 화면 오프셋 {calibration.visualOffset}ms
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
 
+        {gameState === "menu" && menuView === "calibration" && (
+          <CalibrationWizard
+            audioEngine={getAudioEngine()}
+            settings={calibration}
+            onSave={(settings) => {
+              setCalibration(settings)
+              saveCalibration(settings)
+            }}
+            onClose={() => setMenuView("main")}
+          />
+        )}
+
+        {gameState === "menu" && menuView === "replay" && replayView && (
+          <ReplayViewer
+            replay={replayView.replay}
+            notes={replayView.notes}
+            timing={replayView.timing}
+            onExport={() => exportReplay(replayView.replay)}
+            onClose={() => {
+              setReplayView(null)
+              setMenuView("main")
+            }}
+          />
+        )}
+
+        {gameState === "menu" && menuView === "practice" && previewChart && (
+          <PracticeSetup
+            title={chart ? `${chart.meta.title} - ${chart.meta.artist}` : `Random #${seed}`}
+            notes={previewChart.notes}
+            timing={previewChart.timing}
+            initialRange={practice?.range}
+            settings={practiceSettings}
+            onChange={(settings) => {
+              setPracticeSettings(settings)
+              savePracticeSettings(settings)
+            }}
+            onStart={(range) => startGame(undefined, { ...practiceSettings, range })}
+            onClose={() => setMenuView("main")}
+          />
+        )}
+
+        {gameState === "menu" && menuView === "keyBindings" && (
+          <KeyBindingSettings
+            bindings={keyBindings}
+            gamepadBindings={gamepadBindings}
+            initialKeyMode={keyMode}
+            onChange={(bindings) => {
+              setKeyBindings(bindings)
+              saveKeyBindings(bindings)
+            }}
+            onGamepadChange={(bindings) => {
+              setGamepadBindings(bindings)
+              saveGamepadBindings(bindings)
+            }}
+            onClose={() => setMenuView("main")}
+          />
+        )}
+
         {(gameState === "playing" || gameState === "paused") && (
           <>
             {/* 게임 UI */}
@@ -649,6 +1314,9 @@ export default function RhythmGame() {
                 <div className="text-white">
                   점수: <span className="text-yellow-400 font-bold text-lg">{stats.score.toLocaleString()}</span>
                 </div>
+                <div className="text-white">
+                  정확도: <span className="text-cyan-300 font-bold text-lg">{getAccuracy(stats).toFixed(2)}%</span>
+                </div>
                 <div className="text-white">
                   콤보: <span className="text-green-400 font-bold text-lg">{stats.combo}</span>
                 </div>
@@ -659,6 +1327,9 @@ export default function RhythmGame() {
                   {keyMode}키 |{" "}
                   <span className={`font-bold ${currentDifficultyConfig.color}`}>{currentDifficultyConfig.name}</span> |{" "}
                   <span className="text-purple-400 font-bold text-lg">{speedMultiplier.toFixed(2)}x</span>
+                  {playModifiers && describeModifiers(playModifiers).length > 0 && (
+                    <span className="text-cyan-300"> | {describeModifiers(playModifiers).join(" · ")}</span>
+                  )}
                 </div>
               </div>
               <div className="flex gap-3">
@@ -689,98 +1360,140 @@ export default function RhythmGame() {
                   <RotateCcw className="w-4 h-4 mr-1" />
                   재시작
                 </Button>
+                {testPlay && (
+                  <Link href="/editor">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                    >
+                      <PencilRuler className="w-4 h-4 mr-1" />
+                      에디터로
+                    </Button>
+                  </Link>
+                )}
               </div>
             </div>
 
-            {/* 게임 영역 */}
-            <div
-              ref={gameAreaRef}
-              className="relative bg-gradient-to-b from-gray-900 to-gray-800 rounded-lg overflow-hidden shadow-2xl border border-gray-700"
-              style={{ height: `${GAME_HEIGHT}px` }}
-            >
-              {/* 레인 */}
-              <div className="absolute inset-0 flex">
-                {Array.from({ length: keyMode }).map((_, index) => (
-                  <div
-                    key={index}
-                    className={`flex-1 border-r border-gray-600 relative transition-all duration-150 ${
-                      pressedKeys.has(index) ? "bg-white bg-opacity-20 shadow-inner" : ""
-                    }`}
-                  >
-                    {/* 키 라벨 */}
-                    <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-30">
-                      <div
-                        className={`w-10 h-10 rounded-xl ${currentKeyConfig.colors[index]} flex items-center justify-center text-sm font-bold shadow-lg border-2 border-white ${
-                          pressedKeys.has(index) ? "scale-110 shadow-2xl" : ""
-                        } transition-all duration-100`}
-                      >
-                        {currentKeyConfig.keys[index]}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-
-              {/* 판정선 */}
-              <div
-                className="absolute left-0 right-0 h-1 bg-white shadow-lg z-20"
-                style={{ top: `${JUDGMENT_LINE_Y}px` }}
-              />
+            {/* 연습 구간과 회차별 정확도 */}
+            {practice && <PracticeProgress session={practice} loops={practiceLoops} />}
 
-              {/* 판정선 글로우 효과 */}
+            {/* 게임 영역과 게이지 */}
+            <div className="flex gap-3">
               <div
-                className="absolute left-0 right-0 h-2 bg-white opacity-30 blur-sm z-19"
-                style={{ top: `${JUDGMENT_LINE_Y - 0.5}px` }}
-              />
-
-              {/* 판정 텍스트 */}
-              {judgment && (
-                <div
-                  className={`absolute top-1/3 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-5xl font-bold z-40 ${judgment.color} animate-bounce drop-shadow-lg`}
-                  style={{ textShadow: "2px 2px 4px rgba(0,0,0,0.8)" }}
-                >
-                  {judgment.text}
+                ref={gameAreaRef}
+                className="relative flex-1 bg-gradient-to-b from-gray-900 to-gray-800 rounded-lg overflow-hidden shadow-2xl border border-gray-700 select-none"
+                style={{ height: `${GAME_HEIGHT}px`, touchAction: "none" }}
+              >
+                {/* 레인, 노트, 판정선, 판정 효과 */}
+                <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+                {/* 키 라벨 */}
+                <div className="absolute inset-0 flex pointer-events-none">
+                  {Array.from({ length: keyMode }).map((_, index) => (
+                    <div key={index} className="flex-1 relative">
+                      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-30">
+                        <div
+                          className={`w-10 h-10 rounded-xl ${currentKeyConfig.colors[index]} flex items-center justify-center text-sm font-bold shadow-lg border-2 border-white ${
+                            pressedKeys.has(index) ? "scale-110 shadow-2xl" : ""
+                          } transition-all duration-100`}
+                        >
+                          {getLaneLabel(currentLaneKeys[index])}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              )}
 
-              {/* 일시정지 오버레이 */}
-              {gameState === "paused" && (
-                <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-sm">
-                  <div className="text-center">
-                    <h2 className="text-4xl font-bold mb-4 text-white">일시정지</h2>
-                    <Button onClick={togglePause} size="lg" className="bg-purple-600 hover:bg-purple-700">
-                      <Play className="w-5 h-5 mr-2" />
-                      계속하기
-                    </Button>
+                {/* 일시정지 오버레이 */}
+                {gameState === "paused" && (
+                  <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-sm">
+                    <div className="text-center">
+                      <h2 className="text-4xl font-bold mb-4 text-white">일시정지</h2>
+                      <Button onClick={togglePause} size="lg" className="bg-purple-600 hover:bg-purple-700">
+                        <Play className="w-5 h-5 mr-2" />
+                        계속하기
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
+              <LifeGauge gauge={gauge} height={GAME_HEIGHT} />
             </div>
 
-            {/* 통계 */}
-            <div className="grid grid-cols-3 gap-4">
-              <Card className="bg-gray-900 border-gray-700 shadow-lg">
-                <CardContent className="p-4 text-center">
-                  <div className="text-3xl font-bold text-yellow-400">{stats.perfect}</div>
-                  <div className="text-sm text-gray-400">PERFECT</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-gray-900 border-gray-700 shadow-lg">
-                <CardContent className="p-4 text-center">
-                  <div className="text-3xl font-bold text-green-400">{stats.good}</div>
-                  <div className="text-sm text-gray-400">GOOD</div>
-                </CardContent>
-              </Card>
-              <Card className="bg-gray-900 border-gray-700 shadow-lg">
-                <CardContent className="p-4 text-center">
-                  <div className="text-3xl font-bold text-red-400">{stats.miss}</div>
-                  <div className="text-sm text-gray-400">MISS</div>
-                </CardContent>
-              </Card>
+            {/* 통계 (판정 규칙의 판정 단계별) */}
+            <div className={cn("grid gap-4", stats.ruleset === "standard" ? "grid-cols-3 md:grid-cols-6" : "grid-cols-3")}>
+              {getJudgmentCounts(stats).map(({ judgment, count }) => (
+                <Card key={judgment} className="bg-gray-900 border-gray-700 shadow-lg">
+                  <CardContent className="p-4 text-center">
+                    <div className={cn("text-3xl font-bold", JUDGMENT_DISPLAY[judgment].className)}>{count}</div>
+                    <div className="text-sm text-gray-400">{JUDGMENT_DISPLAY[judgment].label}</div>
+                  </CardContent>
+                </Card>
+              ))}
             </div>
           </>
         )}
 
+        {gameState === "ended" && (
+          <ResultsScreen
+            stats={stats}
+            gauge={gauge}
+            title={chart ? `${chart.meta.title} - ${chart.meta.artist}` : `Random #${seed}`}
+            description={[
+              ...(testPlay ? ["테스트 플레이"] : []),
+              `${keyMode}키`,
+              currentDifficultyConfig.name,
+              `${speedMultiplier.toFixed(2)}x`,
+              ...(playModifiers ? describeModifiers(playModifiers) : []),
+            ].join(" | ")}
+            onRetry={() => startGame(testPlay ?? undefined)}
+            onMenu={resetGame}
+            onWatchReplay={lastReplay && !testPlay ? () => openReplay(lastReplay) : undefined}
+            onExportReplay={lastReplay && !testPlay ? () => exportReplay(lastReplay) : undefined}
+          />
+        )}
+
+        {gameState === "ended" && testPlay && (
+          <div className="flex justify-center">
+            <Link href="/editor">
+              <Button
+                variant="outline"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <PencilRuler className="w-4 h-4 mr-1" />
+                에디터로 돌아가기
+              </Button>
+            </Link>
+          </div>
+        )}
+
+        {gameState === "menu" && menuView === "main" && (
+          <PlayHistory
+            records={playHistory}
+            chartId={currentChartId}
+            showAll={showAllHistory}
+            onToggleShowAll={() => setShowAllHistory((prev) => !prev)}
+            onClear={() => {
+              clearPlayHistory()
+              setPlayHistory([])
+            }}
+          />
+        )}
+
+        {/* 메뉴 데모 */}
+        {gameState === "menu" && showDemo && previewChart && (
+          <AttractDemo
+            title={chart ? `${chart.meta.title} - ${chart.meta.artist}` : `Random #${seed}`}
+            notes={previewChart.notes}
+            timing={previewChart.timing}
+            keyMode={chart ? chart.meta.keyMode : keyMode}
+            rulesetId={rulesetId}
+            scrollSpeed={scrollSpeed}
+            onClose={closeDemo}
+          />
+        )}
+
         {/* 게임 설명 */}
         <Card className="bg-gray-900 border-gray-700 shadow-lg">
           <CardHeader>
@@ -793,29 +1506,98 @@ export default function RhythmGame() {
             <p>
               • <strong>난이도</strong>: Easy (느린 속도, 단순 패턴), Normal (보통 속도), Hard (빠른 속도, 복잡한 패턴)
             </p>
+            <p>
+              • <strong>Random</strong> 채보는 <strong>시드</strong>로 만들어집니다. 같은 시드, 키 모드, 난이도면 항상 같은
+              채보가 나오므로 시드를 공유해 점수를 비교할 수 있습니다
+            </p>
+            <p>
+              • <strong>음악 파일</strong>을 고른 뒤 <strong>음악에 맞춰 채보 생성</strong>을 누르면 곡의 박자와 소리가 나는
+              지점을 분석해 현재 키 모드와 난이도로 채보를 만듭니다
+            </p>
             <p>
               • <strong>키 모드</strong>를 선택하여 4키, 6키, 8키 중 원하는 모드로 플레이하세요
             </p>
             <p>
-              • <strong>4키</strong>: A, S, D, F 또는 화살표 키
+              • <strong>4키</strong>: A, S, D, F 또는 화살표 키 (기본값)
             </p>
             <p>
-              • <strong>6키</strong>: A, S, D, J, K, L
+              • <strong>6키</strong>: A, S, D, J, K, L (기본값)
             </p>
             <p>
-              • <strong>8키</strong>: A, S, D, F, J, K, L, ;
+              • <strong>8키</strong>: A, S, D, F, J, K, L, ; (기본값)
+            </p>
+            <p>
+              • <strong>키 설정</strong>에서 레인마다 원하는 키를 여러 개 지정할 수 있습니다
+            </p>
+            <p>
+              • <strong>게임패드</strong>와 <strong>터치</strong>도 지원합니다. 터치는 게임 영역의 레인을 직접 누르며,
+              여러 손가락으로 동시치기가 가능합니다
             </p>
             <p>• 노트가 판정선(흰색 선)에 도달할 때 해당 키를 누르면 점수를 획득합니다</p>
             <p>
-              • <strong>PERFECT</strong>: 정확한 타이밍 (1000점 + 콤보 보너스)
+              • 판정 규칙 <strong>{currentRuleset.name}</strong>:{" "}
+              {currentRuleset.tiers.map((tier) => (
+                <span key={tier.judgment}>
+                  <strong className={JUDGMENT_DISPLAY[tier.judgment].className}>
+                    {JUDGMENT_DISPLAY[tier.judgment].label}
+                  </strong>{" "}
+                  ±{tier.window}ms{tier.breaksCombo ? " (콤보 초기화)" : ""},{" "}
+                </span>
+              ))}
+              그보다 늦으면 <strong className={JUDGMENT_DISPLAY.miss.className}>MISS</strong> (콤보 초기화)
             </p>
             <p>
-              • <strong>GOOD</strong>: 괜찮은 타이밍 (500점 + 콤보 보너스)
+              • 점수는{" "}
+              {currentRuleset.scoring === "accuracy"
+                ? "판정 가중치로 계산한 정확도를 1,000,000점 만점으로 환산합니다 (곡 길이와 무관)"
+                : "판정 점수에 콤보 배율(10콤보마다 +1)을 곱해 누적합니다"}
             </p>
             <p>
-              • <strong>MISS</strong>: 놓친 노트 (콤보 초기화)
+              • <strong>롱노트</strong>: 머리에서 누르고 꼬리에서 떼세요. 누르고 있는 동안 콤보가 오르며, 일찍 떼면 콤보가
+              끊깁니다
             </p>
             <p>• 연속으로 노트를 맞추면 콤보가 쌓여 더 높은 점수를 얻을 수 있습니다!</p>
+            <p>
+              • <strong>채보 에디터</strong>에서 음악에 맞춰 직접 채보를 만들고, 원하는 지점부터 테스트 플레이한 뒤 JSON
+              파일로 내보낼 수 있습니다
+            </p>
+            <p>
+              • 키를 누르면 타격음이, 판정에 따라 PERFECT/GOOD 효과음과 MISS 알림음이 납니다. 채보의{" "}
+              <strong>meta.sounds</strong>에 키음을 정의하고 노트에 <strong>sound</strong>를 지정하면 맞췄을 때 그 키음이
+              재생됩니다. 음악, 타격음, 효과음 음량은 메뉴에서 따로 조절할 수 있습니다
+            </p>
+            <p>
+              • 채보 파일로 <strong>BMS</strong>(.bms, .bme, .bml 싱글 플레이)와 <strong>osu!mania</strong>(.osu) 채보도
+              불러올 수 있습니다. 음원과 키음 파일을 채보와 함께 선택하면 자동으로 연결되며, 5키와 7키 채보는 빈 레인을
+              하나 더해 6키와 8키로 플레이합니다. 채보의 변속, 정지, 스크롤 속도 변화도 그대로 반영됩니다
+            </p>
+            <p>
+              • <strong>박자선</strong> 옵션을 켜면 레인에 박자선과 마디선(굵은 선)이 표시되어 변속과 정지를 미리 알아볼
+              수 있습니다
+            </p>
+            <p>
+              • <strong>옵션</strong>: 미러(좌우 반전), 랜덤(레인 순서 섞기), 슈퍼 랜덤(노트마다 레인 섞기)으로 배치를 바꾸고,
+              히든(판정선 근처에서 사라짐), 서든(늦게 나타남), 가림막으로 노트를 가릴 수 있습니다. 적용한 옵션은 기록과
+              리플레이에 함께 저장되며, 자동 플레이는 기록하지 않습니다
+            </p>
+            <p>
+              • <strong>자동 플레이</strong>는 직접 누르는 것과 같은 방식으로 노트를 칩니다. 흔들림을 고르면 사람처럼 입력
+              시각이 조금씩 어긋나고, 흔들림 없이 끝까지 치면 모든 판정이 최고 판정인지 확인해 알려 줍니다. 메인 메뉴에서
+              30초 동안 입력이 없거나 <strong>데모</strong>를 누르면 현재 채보의 자동 플레이를 보여 줍니다
+            </p>
+            <p>
+              • <strong>게이지</strong>: 판정에 따라 오르내리며, 노멀은 끝났을 때 80%, 이지는 60% 이상이면 클리어입니다.
+              하드는 100%에서 시작해 0%가 되면 바로 실패합니다. <strong>실패 없음</strong>을 켜면 끝까지 플레이할 수
+              있습니다
+            </p>
+            <p>
+              • <strong>연습 모드</strong>: 채보 개요를 끌거나 마디, 시간으로 구간을 고르면 그 구간을 반복합니다. 재생 속도(음
+              높이 유지)와 준비 시간을 바꿀 수 있고 회차마다 정확도가 표시되며, 기록은 저장하지 않습니다
+            </p>
+            <p>
+              • 플레이가 끝나면 <strong>리플레이</strong>를 보거나 파일로 저장할 수 있습니다. 저장한 리플레이는 메뉴에서
+              불러와 일시정지, 구간 이동, 재생 속도 조절을 하며 다시 볼 수 있습니다
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { MonitorPlay } from "lucide-react"
+import { END_DELAY, GAME_HEIGHT, type KeyMode, type Note, type RulesetId } from "@/lib/game-config"
+import { AutoPlayer } from "@/lib/auto-play"
+import { GameEngine } from "@/lib/game-engine"
+import { getLastNoteTime } from "@/lib/judge"
+import { createSeed } from "@/lib/note-generator"
+import { CanvasRenderer, createNoteTimeline } from "@/lib/renderer"
+import { createInitialStats, getAccuracy } from "@/lib/stats"
+import type { TimingMap } from "@/lib/timing"
+
+interface AttractDemoProps {
+  title: string
+  notes: Note[]
+  timing?: TimingMap // 채보의 변속과 스크롤 속도 변화 (랜덤 채보는 없음)
+  keyMode: KeyMode
+  rulesetId: RulesetId
+  scrollSpeed: number
+  onClose: () => void
+}
+
+const LANE_WIDTH = 60
+const DEMO_LEAD_IN = 1500 // 첫 노트가 내려오기 전 여유 (ms)
+const DEMO_JITTER = 8 // 사람이 치는 것처럼 보이도록 입력 시각을 조금 흔든다 (ms)
+
+// 메뉴에서 한동안 입력이 없으면 보여 주는 데모 (자동 플레이를 판정 엔진으로 진행, 소리 없이 끝나면 처음부터 반복)
+// 아무 키나 누르거나 화면을 누르면 닫힌다
+export function AttractDemo({ title, notes, timing, keyMode, rulesetId, scrollSpeed, onClose }: AttractDemoProps) {
+  const [stats, setStats] = useState(() => createInitialStats(rulesetId))
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  // 데모 진행 (화면 시각 기준으로 입력을 넣고 판정, 그리기)
+  useEffect(() => {
+    if (!canvasRef.current) return
+    const renderer = new CanvasRenderer(canvasRef.current, { keyMode, scrollSpeed })
+    const engine = new GameEngine(notes, rulesetId)
+    const timeline = createNoteTimeline(engine.notes, timing)
+    const player = new AutoPlayer(engine.notes, { jitter: DEMO_JITTER, seed: createSeed() })
+    const heldLanes = new Set<number>()
+    const duration = getLastNoteTime(notes) + END_DELAY
+    const unsubscribes = [
+      engine.on("stats", setStats),
+      engine.on("judgment", (event) => renderer.addEffect(event, event.time)),
+    ]
+
+    let frame = 0
+    let startedAt = performance.now()
+    const loop = (now: number) => {
+      let time = now - startedAt - DEMO_LEAD_IN
+      if (time >= duration) {
+        startedAt = now
+        time = -DEMO_LEAD_IN
+        engine.load(engine.notes)
+        player.rewind()
+        heldLanes.clear()
+        renderer.clearEffects()
+      }
+      player.take(time).forEach(([inputTime, lane, pressed]) => {
+        if (pressed) {
+          engine.press(lane, inputTime)
+          heldLanes.add(lane)
+        } else {
+          engine.release(lane, inputTime)
+          heldLanes.delete(lane)
+        }
+      })
+      engine.tick(time)
+      renderer.render({ time, timeline, notes: engine.notes, pressedLanes: heldLanes })
+      frame = requestAnimationFrame(loop)
+    }
+    frame = requestAnimationFrame(loop)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      renderer.dispose()
+    }
+  }, [notes, timing, keyMode, rulesetId, scrollSpeed])
+
+  // 아무 입력이나 있으면 닫기
+  useEffect(() => {
+    window.addEventListener("keydown", onClose)
+    window.addEventListener("pointerdown", onClose)
+    return () => {
+      window.removeEventListener("keydown", onClose)
+      window.removeEventListener("pointerdown", onClose)
+    }
+  }, [onClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-black/90 backdrop-blur-sm">
+      <div className="flex items-center gap-2 text-xl font-bold text-white">
+        <MonitorPlay className="w-6 h-6 text-purple-400" />
+        데모: {title}
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="rounded-lg border border-gray-700 bg-gradient-to-b from-gray-900 to-gray-800 shadow-2xl"
+        style={{ width: keyMode * LANE_WIDTH, height: GAME_HEIGHT }}
+      />
+      <div className="flex gap-6 text-sm text-white">
+        <div>
+          점수: <span className="text-yellow-400 font-bold">{stats.score.toLocaleString()}</span>
+        </div>
+        <div>
+          정확도: <span className="text-cyan-300 font-bold">{getAccuracy(stats).toFixed(2)}%</span>
+        </div>
+        <div>
+          콤보: <span className="text-green-400 font-bold">{stats.combo}</span>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400 animate-pulse">아무 키나 누르면 메뉴로 돌아갑니다</p>
+    </div>
+  )
+}
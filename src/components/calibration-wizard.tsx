@@ -0,0 +1,262 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ArrowLeft, Check, Eye, Headphones, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { AudioEngine } from "@/lib/audio-engine"
+import { computeTapOffset, MAX_OFFSET, type CalibrationSettings } from "@/lib/calibration"
+import { cn } from "@/lib/utils"
+
+interface CalibrationWizardProps {
+  audioEngine: AudioEngine
+  settings: CalibrationSettings
+  onSave: (settings: CalibrationSettings) => void
+  onClose: () => void
+}
+
+const METRONOME_BPM = 100
+const BEAT_INTERVAL = 60000 / METRONOME_BPM
+const COUNT_IN_BEATS = 4 // 탭을 받기 전 준비 박자
+const TAP_BEATS = 16 // 탭을 받는 박자 수
+const VISUAL_BEATS = 64
+const LEAD_IN = 1000 // 메트로놈 시작 전 대기 (ms)
+const FLASH_DURATION = 80 // ms
+
+export function CalibrationWizard({ audioEngine, settings, onSave, onClose }: CalibrationWizardProps) {
+  const [step, setStep] = useState<"audio" | "visual">("audio")
+  const [running, setRunning] = useState(false)
+  const [tapCount, setTapCount] = useState(0)
+  const [audioOffset, setAudioOffset] = useState(settings.audioOffset)
+  const [visualOffset, setVisualOffset] = useState(settings.visualOffset)
+  const [measuredOffset, setMeasuredOffset] = useState<number | null>(null)
+  const [flash, setFlash] = useState(false)
+
+  const tapTimesRef = useRef<number[]>([])
+  const animationRef = useRef(0)
+
+  // 메트로놈 재생 (0ms부터 beats박, 4박마다 강세)
+  const startMetronome = useCallback(
+    async (beats: number) => {
+      audioEngine.unload()
+      await audioEngine.start(-LEAD_IN)
+      for (let beat = 0; beat < beats; beat++) {
+        audioEngine.scheduleClick(beat * BEAT_INTERVAL, beat % 4 === 0 ? 1500 : 1000)
+      }
+      setRunning(true)
+    },
+    [audioEngine],
+  )
+
+  const stopMetronome = useCallback(() => {
+    audioEngine.stop()
+    cancelAnimationFrame(animationRef.current)
+    setRunning(false)
+    setFlash(false)
+  }, [audioEngine])
+
+  // 입력 오차 측정 시작
+  const startAudioCalibration = async () => {
+    tapTimesRef.current = []
+    setTapCount(0)
+    setMeasuredOffset(null)
+    await startMetronome(COUNT_IN_BEATS + TAP_BEATS)
+  }
+
+  const finishAudioCalibration = useCallback(() => {
+    stopMetronome()
+    const beatTimes = Array.from({ length: TAP_BEATS }, (_, i) => (COUNT_IN_BEATS + i) * BEAT_INTERVAL)
+    const offset = computeTapOffset(tapTimesRef.current, beatTimes)
+    setMeasuredOffset(offset)
+    if (offset !== null) {
+      setAudioOffset(Math.max(-MAX_OFFSET, Math.min(MAX_OFFSET, offset)))
+    }
+  }, [stopMetronome])
+
+  // 탭 입력 (아무 키)
+  useEffect(() => {
+    if (step !== "audio" || !running) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat) return
+      event.preventDefault()
+      const tapTime = audioEngine.getSongTimeAt(event.timeStamp)
+      if (tapTime < (COUNT_IN_BEATS - 0.5) * BEAT_INTERVAL) return
+      tapTimesRef.current.push(tapTime)
+      setTapCount(tapTimesRef.current.length)
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [step, running, audioEngine])
+
+  // 오디오 단계: 마지막 박자가 지나면 자동으로 결과 계산
+  // 화면 단계: 보정값을 반영한 시간에 맞춰 깜빡임
+  useEffect(() => {
+    if (!running) return
+
+    const loop = () => {
+      const songTime = audioEngine.getSongTime()
+      if (step === "audio") {
+        if (songTime > (COUNT_IN_BEATS + TAP_BEATS) * BEAT_INTERVAL) {
+          finishAudioCalibration()
+          return
+        }
+      } else {
+        const visualTime = songTime + visualOffset
+        const phase = ((visualTime % BEAT_INTERVAL) + BEAT_INTERVAL) % BEAT_INTERVAL
+        setFlash(visualTime >= 0 && phase < FLASH_DURATION)
+        if (songTime > VISUAL_BEATS * BEAT_INTERVAL) {
+          stopMetronome()
+          return
+        }
+      }
+      animationRef.current = requestAnimationFrame(loop)
+    }
+
+    animationRef.current = requestAnimationFrame(loop)
+    return () => cancelAnimationFrame(animationRef.current)
+  }, [running, step, visualOffset, audioEngine, finishAudioCalibration, stopMetronome])
+
+  // 화면을 벗어나면 메트로놈 정지
+  useEffect(() => stopMetronome, [stopMetronome])
+
+  const changeStep = (newStep: "audio" | "visual") => {
+    stopMetronome()
+    setStep(newStep)
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-700">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2 text-white">
+          {step === "audio" ? <Headphones className="w-6 h-6" /> : <Eye className="w-6 h-6" />}
+          오프셋 보정 ({step === "audio" ? "1/2 입력" : "2/2 화면"})
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          {step === "audio"
+            ? `메트로놈 ${COUNT_IN_BEATS}박 뒤부터 ${TAP_BEATS}박 동안 박자에 맞춰 아무 키나 누르세요`
+            : "메트로놈 소리와 화면의 깜빡임이 동시에 느껴지도록 화면 오프셋을 조절하세요"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-center">
+        {step === "audio" ? (
+          <>
+            <div className="text-6xl font-bold text-white">{running ? tapCount : (measuredOffset ?? "-")}</div>
+            <p className="text-sm text-gray-400">
+              {running
+                ? "탭 횟수"
+                : measuredOffset !== null
+                  ? "측정된 평균 입력 오차 (ms, 양수면 늦게 누름)"
+                  : tapCount > 0
+                    ? "박자에 맞는 입력이 부족합니다. 다시 시도해 주세요"
+                    : "시작을 누르면 메트로놈이 재생됩니다"}
+            </p>
+            <Button
+              onClick={running ? finishAudioCalibration : startAudioCalibration}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {running ? "중단" : measuredOffset !== null ? "다시 측정" : "시작"}
+            </Button>
+          </>
+        ) : (
+          <>
+            <div
+              className={cn(
+                "mx-auto h-32 w-32 rounded-full border-4 border-white transition-none",
+                flash ? "bg-white" : "bg-gray-800",
+              )}
+            />
+            <Button
+              onClick={running ? stopMetronome : () => startMetronome(VISUAL_BEATS)}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {running ? "정지" : "메트로놈 재생"}
+            </Button>
+          </>
+        )}
+
+        {/* 보정값 */}
+        <div className="mx-auto max-w-md space-y-4 text-left">
+          <label className="block space-y-1">
+            <span className="flex justify-between text-sm text-gray-300">
+              입력 오프셋 <span className="font-bold text-white">{audioOffset}ms</span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_OFFSET}
+              max={MAX_OFFSET}
+              value={audioOffset}
+              onChange={(event) => setAudioOffset(Number(event.target.value))}
+              className="w-full accent-purple-500"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="flex justify-between text-sm text-gray-300">
+              화면 오프셋 <span className="font-bold text-white">{visualOffset}ms</span>
+            </span>
+            <input
+              type="range"
+              min={-MAX_OFFSET}
+              max={MAX_OFFSET}
+              value={visualOffset}
+              onChange={(event) => setVisualOffset(Number(event.target.value))}
+              className="w-full accent-purple-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-3">
+          <Button
+            onClick={onClose}
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            돌아가기
+          </Button>
+          <Button
+            onClick={() => {
+              setAudioOffset(0)
+              setVisualOffset(0)
+            }}
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            초기화
+          </Button>
+          {step === "audio" ? (
+            <Button
+              onClick={() => changeStep("visual")}
+              variant="outline"
+              className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+            >
+              <Eye className="w-4 h-4 mr-1" />
+              화면 보정
+            </Button>
+          ) : (
+            <Button
+              onClick={() => changeStep("audio")}
+              variant="outline"
+              className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+            >
+              <Headphones className="w-4 h-4 mr-1" />
+              입력 보정
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              onSave({ audioOffset, visualOffset })
+              onClose()
+            }}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <Check className="w-4 h-4 mr-1" />
+            저장
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,863 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Bot, Download, FileMusic, Music, Pause, Play, Redo2, Undo2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AudioEngine } from "@/lib/audio-engine"
+import { checkAutoPlay } from "@/lib/auto-play"
+import {
+  CHART_FORMAT_VERSION,
+  chartToNotes,
+  getChartTiming,
+  parseChart,
+  parseChartJson,
+  serializeChart,
+  type ChartMeta,
+  type ChartNote,
+  type TimingPoint,
+} from "@/lib/chart"
+import {
+  SNAP_DIVISIONS,
+  canPlaceNote,
+  commitHistory,
+  createHistory,
+  findNoteAt,
+  getPeak,
+  redoHistory,
+  roundBeat,
+  snapBeat,
+  sortNotes,
+  undoHistory,
+  type EditHistory,
+} from "@/lib/chart-editor"
+import {
+  DIFFICULTY_SETTINGS,
+  JUDGMENT_DISPLAY,
+  KEY_MODES,
+  LANE_COLOR_HEX,
+  type Difficulty,
+  type KeyMode,
+} from "@/lib/game-config"
+import { loadRulesetId } from "@/lib/ruleset-settings"
+import { getJudgmentCounts } from "@/lib/stats"
+import { loadEditorDraft, requestTestPlay, saveEditorDraft } from "@/lib/test-play"
+import { cn } from "@/lib/utils"
+import { loadVolumes } from "@/lib/volume-settings"
+
+const WAVEFORM_WIDTH = 80
+const LANE_WIDTH = 56
+const CANVAS_HEIGHT = 600
+const BOTTOM_MARGIN = 80 // 커서(판정선) 아래 여백
+const NOTE_HEIGHT = 14
+const BEATS_PER_MEASURE = 4
+
+const DEFAULT_META: ChartMeta = {
+  title: "Untitled",
+  artist: "Unknown",
+  bpm: 120,
+  offset: 0,
+  keyMode: 4,
+  difficulty: "normal",
+}
+
+// 드래그 중인 작업 (새 노트 배치 또는 기존 노트 이동)
+type DragState =
+  | { mode: "create"; start: ChartNote }
+  | { mode: "move"; index: number; origin: ChartNote; grabOffset: number }
+
+const noteKey = (note: ChartNote) => `${note.lane}:${note.beat}`
+
+export function ChartEditor() {
+  const router = useRouter()
+  const [meta, setMeta] = useState<ChartMeta>(DEFAULT_META)
+  // 불러온 채보의 변속, 정지, 스크롤 속도 변화 (에디터에서는 고치지 않고 그대로 유지)
+  const [timingPoints, setTimingPoints] = useState<TimingPoint[]>([])
+  const [history, setHistory] = useState<EditHistory>(() => createHistory([]))
+  const [audioFile, setAudioFile] = useState<File | null>(null)
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null)
+  const [division, setDivision] = useState(4)
+  const [pixelsPerBeat, setPixelsPerBeat] = useState(80)
+  const [cursorBeat, setCursorBeat] = useState(0)
+  const [tool, setTool] = useState<"tap" | "hold">("tap")
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [draftNote, setDraftNote] = useState<ChartNote | null>(null)
+  const [hover, setHover] = useState<{ lane: number; beat: number } | null>(null)
+  const [playing, setPlaying] = useState(false)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const audioEngineRef = useRef<AudioEngine | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const animationRef = useRef(0)
+
+  const notes = history.present
+  const keyMode = meta.keyMode
+  const colors = KEY_MODES[keyMode].colors
+  const canvasWidth = WAVEFORM_WIDTH + keyMode * LANE_WIDTH
+  const snapStep = 1 / division
+  const timing = useMemo(() => getChartTiming({ meta, timing: timingPoints }), [meta, timingPoints])
+
+  const getAudioEngine = useCallback(() => {
+    if (!audioEngineRef.current) {
+      audioEngineRef.current = new AudioEngine()
+      audioEngineRef.current.setVolumes(loadVolumes())
+    }
+    return audioEngineRef.current
+  }, [])
+
+  // 좌표 ↔ 박자 변환 (시간은 아래에서 위로 흐른다)
+  const beatToY = useCallback(
+    (beat: number) => CANVAS_HEIGHT - BOTTOM_MARGIN - (beat - cursorBeat) * pixelsPerBeat,
+    [cursorBeat, pixelsPerBeat],
+  )
+  const yToBeat = useCallback(
+    (y: number) => cursorBeat + (CANVAS_HEIGHT - BOTTOM_MARGIN - y) / pixelsPerBeat,
+    [cursorBeat, pixelsPerBeat],
+  )
+
+  const commitNotes = useCallback((newNotes: ChartNote[]) => {
+    setHistory((prev) => commitHistory(prev, sortNotes(newNotes)))
+  }, [])
+
+  // 재생 정지
+  const stopPlayback = useCallback(() => {
+    cancelAnimationFrame(animationRef.current)
+    audioEngineRef.current?.stop()
+    setPlaying(false)
+  }, [])
+
+  // 커서 위치부터 재생 (노트 위치에 클릭음)
+  const startPlayback = useCallback(async () => {
+    const audioEngine = getAudioEngine()
+    const startTime = timing.beatToTime(cursorBeat)
+    await audioEngine.start(startTime)
+    notes.forEach((note) => {
+      if (note.beat >= cursorBeat) {
+        audioEngine.scheduleClick(timing.beatToTime(note.beat), 2000, 0.03, "hit")
+      }
+    })
+    setPlaying(true)
+
+    const loop = () => {
+      const beat = timing.timeToBeat(audioEngine.getSongTime())
+      setCursorBeat(Math.max(0, beat))
+      animationRef.current = requestAnimationFrame(loop)
+    }
+    animationRef.current = requestAnimationFrame(loop)
+  }, [getAudioEngine, cursorBeat, timing, notes])
+
+  const togglePlayback = useCallback(() => {
+    if (playing) {
+      stopPlayback()
+      setCursorBeat((beat) => snapBeat(beat, division))
+    } else {
+      startPlayback()
+    }
+  }, [playing, stopPlayback, startPlayback, division])
+
+  // 음원 불러오기
+  const loadAudio = useCallback(
+    async (file: File) => {
+      stopPlayback()
+      try {
+        const buffer = await getAudioEngine().load(file)
+        setAudioFile(file)
+        setAudioBuffer(buffer)
+        setMeta((prev) => ({ ...prev, audio: file.name }))
+      } catch {
+        toast.error("음악 파일을 불러올 수 없습니다")
+      }
+    },
+    [getAudioEngine, stopPlayback],
+  )
+
+  // 기존 채보 불러오기
+  const loadChartFile = async (file: File) => {
+    try {
+      const chart = parseChartJson(await file.text())
+      setMeta(chart.meta)
+      setTimingPoints(chart.timing ?? [])
+      setHistory(createHistory(chart.notes))
+      setSelectedKey(null)
+      setCursorBeat(0)
+      toast(`채보 로드: ${chart.meta.title}`)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 현재 채보 검증 후 JSON 파일로 내보내기
+  const exportChart = () => {
+    try {
+      const chart = parseChart({ version: CHART_FORMAT_VERSION, meta, notes, timing: timingPoints })
+      const blob = new Blob([serializeChart(chart)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${meta.title}-${meta.keyMode}k-${meta.difficulty}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 커서 위치부터 게임 화면에서 테스트 플레이
+  const testPlay = () => {
+    try {
+      const chart = parseChart({ version: CHART_FORMAT_VERSION, meta, notes, timing: timingPoints })
+      stopPlayback()
+      saveEditorDraft({ meta, notes, timing: timingPoints, audioFile, cursorBeat })
+      requestTestPlay({ chart, audio: audioFile, startTime: timing.beatToTime(cursorBeat) })
+      router.push("/")
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 채보 전체를 흔들림 없는 자동 플레이로 판정해 모든 노트가 최고 판정을 받는지 확인 (게임의 판정 규칙 기준)
+  const verifyChart = () => {
+    try {
+      const chart = parseChart({ version: CHART_FORMAT_VERSION, meta, notes, timing: timingPoints })
+      const { stats, expected, passed } = checkAutoPlay(chartToNotes(chart), loadRulesetId())
+      const description = getJudgmentCounts(stats)
+        .map(({ judgment, count }) => `${JUDGMENT_DISPLAY[judgment].label} ${count}`)
+        .join(" · ")
+      if (passed) {
+        toast.success(`자동 검증 통과: ${stats.score.toLocaleString()}점`, { description })
+      } else {
+        toast.warning(
+          `자동 검증 실패: ${stats.score.toLocaleString()}점 (기대 ${expected.score.toLocaleString()}점)`,
+          { description: `${description} | 판정 범위 안에서 같은 레인에 겹친 노트가 있는지 확인하세요` },
+        )
+      }
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  // 키 모드 변경 (범위를 벗어나는 레인의 노트는 삭제)
+  const changeKeyMode = (mode: KeyMode) => {
+    const removed = notes.filter((note) => note.lane >= mode).length
+    if (removed > 0) {
+      commitNotes(notes.filter((note) => note.lane < mode))
+      toast(`${mode}키 범위를 벗어난 노트 ${removed}개를 삭제했습니다`)
+    }
+    setMeta((prev) => ({ ...prev, keyMode: mode }))
+  }
+
+  // 커서 위치에 노트 배치/삭제
+  const toggleNoteAtCursor = useCallback(
+    (lane: number) => {
+      const beat = snapBeat(cursorBeat, division)
+      const index = findNoteAt(notes, lane, beat, 0)
+      if (index !== -1) {
+        commitNotes(notes.filter((_, i) => i !== index))
+        return
+      }
+
+      const note: ChartNote = tool === "hold" ? { beat, lane, length: 1 } : { beat, lane }
+      if (canPlaceNote(notes, note)) {
+        commitNotes([...notes, note])
+        setSelectedKey(noteKey(note))
+      }
+    },
+    [cursorBeat, division, notes, tool, commitNotes],
+  )
+
+  // 선택한 노트 이동
+  const moveSelected = useCallback(
+    (deltaBeat: number, deltaLane: number) => {
+      const index = notes.findIndex((note) => noteKey(note) === selectedKey)
+      if (index === -1) return false
+
+      const moved = {
+        ...notes[index],
+        beat: roundBeat(notes[index].beat + deltaBeat),
+        lane: notes[index].lane + deltaLane,
+      }
+      if (moved.lane < 0 || moved.lane >= keyMode || !canPlaceNote(notes, moved, index)) return true
+
+      commitNotes(notes.map((note, i) => (i === index ? moved : note)))
+      setSelectedKey(noteKey(moved))
+      return true
+    },
+    [notes, selectedKey, keyMode, commitNotes],
+  )
+
+  // 키보드 단축키
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return
+
+      const ctrl = event.ctrlKey || event.metaKey
+      if (ctrl && event.code === "KeyZ") {
+        event.preventDefault()
+        setHistory((prev) => (event.shiftKey ? redoHistory(prev) : undoHistory(prev)))
+        return
+      }
+      if (ctrl && event.code === "KeyY") {
+        event.preventDefault()
+        setHistory(redoHistory)
+        return
+      }
+
+      const digit = event.code.match(/^(?:Digit|Numpad)([1-8])$/)
+      if (digit) {
+        const lane = Number(digit[1]) - 1
+        if (lane < keyMode) toggleNoteAtCursor(lane)
+        return
+      }
+
+      switch (event.code) {
+        case "Space":
+          event.preventDefault()
+          togglePlayback()
+          break
+        case "ArrowUp":
+        case "ArrowDown": {
+          event.preventDefault()
+          const direction = event.code === "ArrowUp" ? 1 : -1
+          if (!moveSelected(direction * snapStep, 0)) {
+            const step = event.shiftKey ? BEATS_PER_MEASURE : snapStep
+            setCursorBeat((beat) => Math.max(0, snapBeat(beat + direction * step, division)))
+          }
+          break
+        }
+        case "ArrowLeft":
+        case "ArrowRight":
+          event.preventDefault()
+          moveSelected(0, event.code === "ArrowRight" ? 1 : -1)
+          break
+        case "Delete":
+        case "Backspace":
+          if (selectedKey) {
+            commitNotes(notes.filter((note) => noteKey(note) !== selectedKey))
+            setSelectedKey(null)
+          }
+          break
+        case "KeyT":
+          setTool("tap")
+          break
+        case "KeyH":
+          setTool("hold")
+          break
+        case "Escape":
+          setSelectedKey(null)
+          break
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [
+    keyMode,
+    snapStep,
+    division,
+    notes,
+    selectedKey,
+    toggleNoteAtCursor,
+    togglePlayback,
+    moveSelected,
+    commitNotes,
+  ])
+
+  // 마우스 위치 → 레인, 박자
+  const getPointerPosition = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = event.clientX - rect.left
+    const y = event.clientY - rect.top
+    return { lane: Math.floor((x - WAVEFORM_WIDTH) / LANE_WIDTH), beat: yToBeat(y), x }
+  }
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 || playing) return
+    const { lane, beat, x } = getPointerPosition(event)
+
+    // 파형 영역 클릭: 커서 이동
+    if (x < WAVEFORM_WIDTH) {
+      setCursorBeat(Math.max(0, snapBeat(beat, division)))
+      return
+    }
+    if (lane < 0 || lane >= keyMode) return
+
+    const index = findNoteAt(notes, lane, beat, NOTE_HEIGHT / pixelsPerBeat)
+    if (index !== -1) {
+      const origin = notes[index]
+      setSelectedKey(noteKey(origin))
+      dragRef.current = { mode: "move", index, origin, grabOffset: beat - origin.beat }
+      setDraftNote(origin)
+      return
+    }
+
+    const start: ChartNote = { beat: snapBeat(beat, division), lane }
+    if (!canPlaceNote(notes, start)) return
+    dragRef.current = { mode: "create", start }
+    setDraftNote(start)
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { lane, beat } = getPointerPosition(event)
+    setHover(lane >= 0 && lane < keyMode ? { lane, beat: snapBeat(beat, division) } : null)
+
+    const drag = dragRef.current
+    if (!drag) return
+
+    if (drag.mode === "move") {
+      setDraftNote({
+        ...drag.origin,
+        beat: Math.max(0, snapBeat(beat - drag.grabOffset, division)),
+        lane: Math.max(0, Math.min(keyMode - 1, lane)),
+      })
+    } else if (tool === "hold") {
+      // 롱노트 도구: 위로 끌어 길이 지정
+      const length = roundBeat(snapBeat(beat, division) - drag.start.beat)
+      setDraftNote(length > 0 ? { ...drag.start, length } : drag.start)
+    }
+  }
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || !draftNote) return
+
+    if (drag.mode === "move") {
+      if (canPlaceNote(notes, draftNote, drag.index) && noteKey(draftNote) !== noteKey(drag.origin)) {
+        commitNotes(notes.map((note, i) => (i === drag.index ? draftNote : note)))
+        setSelectedKey(noteKey(draftNote))
+      }
+    } else if (canPlaceNote(notes, draftNote)) {
+      commitNotes([...notes, draftNote])
+      setSelectedKey(noteKey(draftNote))
+    }
+    setDraftNote(null)
+  }
+
+  // 우클릭: 노트 삭제
+  const handleContextMenu = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    event.preventDefault()
+    const { lane, beat } = getPointerPosition(event)
+    const index = findNoteAt(notes, lane, beat, NOTE_HEIGHT / pixelsPerBeat)
+    if (index !== -1) {
+      if (noteKey(notes[index]) === selectedKey) setSelectedKey(null)
+      commitNotes(notes.filter((_, i) => i !== index))
+    }
+  }
+
+  // 휠: 커서 이동, Ctrl+휠: 확대/축소
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    if (playing) return
+    if (event.ctrlKey) {
+      setPixelsPerBeat((prev) => Math.max(20, Math.min(400, prev * (event.deltaY < 0 ? 1.2 : 1 / 1.2))))
+      return
+    }
+    const direction = event.deltaY < 0 ? 1 : -1
+    setCursorBeat((beat) => Math.max(0, snapBeat(beat + direction * snapStep, division)))
+  }
+
+  // 캔버스 그리기
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = canvasWidth * dpr
+    canvas.height = CANVAS_HEIGHT * dpr
+    context.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+    context.fillStyle = "#111827"
+    context.fillRect(0, 0, canvasWidth, CANVAS_HEIGHT)
+
+    // 파형 (세로 방향)
+    if (audioBuffer) {
+      const samples = audioBuffer.getChannelData(0)
+      const sampleRate = audioBuffer.sampleRate
+      const center = WAVEFORM_WIDTH / 2
+      context.fillStyle = "#6b7280"
+      for (let y = 0; y < CANVAS_HEIGHT; y++) {
+        const startTime = timing.beatToTime(yToBeat(y + 1))
+        const endTime = timing.beatToTime(yToBeat(y))
+        if (endTime < 0) continue
+        const peak = getPeak(samples, (startTime / 1000) * sampleRate, (endTime / 1000) * sampleRate)
+        const halfWidth = peak * (center - 4)
+        context.fillRect(center - halfWidth, y, halfWidth * 2, 1)
+      }
+    }
+
+    // 레인 구분선
+    context.fillStyle = "#1f2937"
+    for (let lane = 0; lane < keyMode; lane++) {
+      if (lane % 2 === 1) {
+        context.fillRect(WAVEFORM_WIDTH + lane * LANE_WIDTH, 0, LANE_WIDTH, CANVAS_HEIGHT)
+      }
+    }
+    context.fillStyle = "#4b5563"
+    context.fillRect(WAVEFORM_WIDTH - 1, 0, 1, CANVAS_HEIGHT)
+
+    // 박자 그리드 (마디 > 박 > 분할)
+    const firstLine = Math.max(0, Math.floor(yToBeat(CANVAS_HEIGHT) * division))
+    const lastLine = Math.ceil(yToBeat(0) * division)
+    context.font = "10px sans-serif"
+    for (let line = firstLine; line <= lastLine; line++) {
+      const beat = line / division
+      const y = Math.round(beatToY(beat)) + 0.5
+      const isMeasure = line % (division * BEATS_PER_MEASURE) === 0
+      const isBeat = line % division === 0
+      context.strokeStyle = isMeasure ? "#e5e7eb" : isBeat ? "#6b7280" : "#374151"
+      context.lineWidth = isMeasure ? 2 : 1
+      context.beginPath()
+      context.moveTo(WAVEFORM_WIDTH, y)
+      context.lineTo(canvasWidth, y)
+      context.stroke()
+      if (isMeasure) {
+        context.fillStyle = "#e5e7eb"
+        context.fillText(`#${beat / BEATS_PER_MEASURE + 1}`, 4, y - 3)
+      }
+    }
+
+    // 노트
+    const drawNote = (note: ChartNote, alpha: number, outline: string | null) => {
+      const x = WAVEFORM_WIDTH + note.lane * LANE_WIDTH + 3
+      const headY = beatToY(note.beat)
+      const tailY = note.length ? beatToY(note.beat + note.length) : headY
+      context.globalAlpha = alpha
+      context.fillStyle = LANE_COLOR_HEX[colors[note.lane]] ?? "#ffffff"
+      if (note.length) {
+        context.globalAlpha = alpha * 0.5
+        context.fillRect(x + 8, tailY, LANE_WIDTH - 22, headY - tailY)
+        context.globalAlpha = alpha
+        context.fillRect(x, tailY - NOTE_HEIGHT / 2, LANE_WIDTH - 6, 4)
+      }
+      context.fillRect(x, headY - NOTE_HEIGHT / 2, LANE_WIDTH - 6, NOTE_HEIGHT)
+      if (outline) {
+        context.strokeStyle = outline
+        context.lineWidth = 2
+        context.strokeRect(x - 1, tailY - NOTE_HEIGHT / 2 - 1, LANE_WIDTH - 4, headY - tailY + NOTE_HEIGHT + 2)
+      }
+      context.globalAlpha = 1
+    }
+
+    const movingIndex = dragRef.current?.mode === "move" ? dragRef.current.index : -1
+    notes.forEach((note, index) => {
+      if (index === movingIndex) return
+      const bottom = beatToY(note.beat)
+      const top = beatToY(note.beat + (note.length ?? 0))
+      if (bottom < -NOTE_HEIGHT || top > CANVAS_HEIGHT + NOTE_HEIGHT) return
+      drawNote(note, 1, noteKey(note) === selectedKey ? "#ffffff" : null)
+    })
+
+    if (draftNote) {
+      drawNote(draftNote, 0.7, "#ffffff")
+    } else if (hover && !playing) {
+      drawNote({ beat: hover.beat, lane: hover.lane }, 0.25, null)
+    }
+
+    // 커서
+    const cursorY = beatToY(cursorBeat)
+    context.fillStyle = playing ? "#a855f7" : "#ef4444"
+    context.fillRect(0, cursorY - 1, canvasWidth, 2)
+  }, [
+    canvasWidth,
+    audioBuffer,
+    timing,
+    keyMode,
+    colors,
+    division,
+    notes,
+    selectedKey,
+    draftNote,
+    hover,
+    playing,
+    cursorBeat,
+    beatToY,
+    yToBeat,
+  ])
+
+  // 테스트 플레이에서 돌아오면 작업 상태 복원
+  useEffect(() => {
+    const draft = loadEditorDraft()
+    if (!draft) return
+    setMeta(draft.meta)
+    setTimingPoints(draft.timing)
+    setHistory(createHistory(draft.notes))
+    setCursorBeat(draft.cursorBeat)
+    if (draft.audioFile) {
+      loadAudio(draft.audioFile)
+    }
+  }, [loadAudio])
+
+  useEffect(() => {
+    return () => {
+      cancelAnimationFrame(animationRef.current)
+      audioEngineRef.current?.dispose()
+    }
+  }, [])
+
+  const holdCount = notes.filter((note) => note.length).length
+
+  return (
+    <div className="min-h-screen bg-black text-white p-4">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent">
+            채보 에디터
+          </h1>
+          <Link href="/">
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              게임으로
+            </Button>
+          </Link>
+        </div>
+
+        {/* 파일 및 메타데이터 */}
+        <Card className="bg-gray-900 border-gray-700">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex cursor-pointer items-center gap-2 rounded-md border border-gray-600 bg-gray-800 px-3 py-2 hover:bg-gray-700">
+                <Music className="w-4 h-4" />
+                {audioFile ? audioFile.name : "음악 파일 열기"}
+                <input
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) loadAudio(file)
+                    event.target.value = ""
+                  }}
+                />
+              </label>
+              <label className="flex cursor-pointer items-center gap-2 rounded-md border border-gray-600 bg-gray-800 px-3 py-2 hover:bg-gray-700">
+                <Upload className="w-4 h-4" />
+                채보 불러오기
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) loadChartFile(file)
+                    event.target.value = ""
+                  }}
+                />
+              </label>
+              <Button onClick={exportChart} size="sm" className="bg-purple-600 hover:bg-purple-700">
+                <Download className="w-4 h-4 mr-1" />
+                내보내기
+              </Button>
+              <Button onClick={testPlay} size="sm" className="bg-pink-600 hover:bg-pink-700">
+                <FileMusic className="w-4 h-4 mr-1" />
+                커서부터 테스트 플레이
+              </Button>
+              <Button
+                onClick={verifyChart}
+                size="sm"
+                variant="outline"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <Bot className="w-4 h-4 mr-1" />
+                자동 검증
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-6">
+              <label className="space-y-1">
+                <span className="text-gray-400">제목</span>
+                <input
+                  value={meta.title}
+                  onChange={(event) => setMeta((prev) => ({ ...prev, title: event.target.value }))}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-2 py-1"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-400">아티스트</span>
+                <input
+                  value={meta.artist}
+                  onChange={(event) => setMeta((prev) => ({ ...prev, artist: event.target.value }))}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-2 py-1"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-400">BPM</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.01}
+                  value={meta.bpm}
+                  onChange={(event) => {
+                    const bpm = Number(event.target.value)
+                    if (bpm > 0) setMeta((prev) => ({ ...prev, bpm }))
+                  }}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-2 py-1"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-400">오프셋 (ms)</span>
+                <input
+                  type="number"
+                  value={meta.offset}
+                  onChange={(event) => setMeta((prev) => ({ ...prev, offset: Number(event.target.value) || 0 }))}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-2 py-1"
+                />
+              </label>
+              <div className="space-y-1">
+                <span className="text-gray-400">키 모드</span>
+                <Select value={keyMode.toString()} onValueChange={(value) => changeKeyMode(Number(value) as KeyMode)}>
+                  <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600 text-white">
+                    {Object.keys(KEY_MODES).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {mode}키
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-gray-400">난이도</span>
+                <Select
+                  value={meta.difficulty}
+                  onValueChange={(value) => setMeta((prev) => ({ ...prev, difficulty: value as Difficulty }))}
+                >
+                  <SelectTrigger className="w-full bg-gray-800 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600 text-white">
+                    {(Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]).map((diff) => (
+                      <SelectItem key={diff} value={diff}>
+                        <span className={DIFFICULTY_SETTINGS[diff].color}>{DIFFICULTY_SETTINGS[diff].name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {timingPoints.length > 0 && (
+              <p className="text-xs text-gray-400">
+                변속·정지·스크롤 속도 변화 {timingPoints.length}개 (불러온 그대로 유지되며, BPM은 처음 구간의 값입니다)
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col gap-4 md:flex-row">
+          {/* 편집 영역 */}
+          <canvas
+            ref={canvasRef}
+            className="rounded-lg border border-gray-700 shadow-2xl"
+            style={{ width: canvasWidth, height: CANVAS_HEIGHT }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              setHover(null)
+              handleMouseUp()
+            }}
+            onContextMenu={handleContextMenu}
+            onWheel={handleWheel}
+          />
+
+          {/* 도구 */}
+          <Card className="flex-1 bg-gray-900 border-gray-700">
+            <CardHeader>
+              <CardTitle className="text-white">도구</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm text-gray-300">
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={togglePlayback} size="sm" className="bg-purple-600 hover:bg-purple-700">
+                  {playing ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                  {playing ? "정지" : "재생"}
+                </Button>
+                <Button
+                  onClick={() => setHistory(undoHistory)}
+                  disabled={history.past.length === 0}
+                  variant="outline"
+                  size="sm"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  실행 취소
+                </Button>
+                <Button
+                  onClick={() => setHistory(redoHistory)}
+                  disabled={history.future.length === 0}
+                  variant="outline"
+                  size="sm"
+                  className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                >
+                  <Redo2 className="w-4 h-4 mr-1" />
+                  다시 실행
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="w-16">노트</span>
+                {(["tap", "hold"] as const).map((value) => (
+                  <Button
+                    key={value}
+                    onClick={() => setTool(value)}
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                      "border-gray-600 text-white hover:bg-gray-700 hover:text-white",
+                      tool === value ? "bg-purple-600 hover:bg-purple-700" : "bg-gray-800",
+                    )}
+                  >
+                    {value === "tap" ? "단타 (T)" : "롱노트 (H)"}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="w-16">스냅</span>
+                <Select value={division.toString()} onValueChange={(value) => setDivision(Number(value))}>
+                  <SelectTrigger className="w-[120px] bg-gray-800 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600 text-white">
+                    {SNAP_DIVISIONS.map((value) => (
+                      <SelectItem key={value} value={value.toString()}>
+                        1/{value} 박
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <p>
+                  커서: #{Math.floor(cursorBeat / BEATS_PER_MEASURE) + 1} · {cursorBeat.toFixed(3)}박 ·{" "}
+                  {(timing.beatToTime(cursorBeat) / 1000).toFixed(3)}초
+                </p>
+                <p>노트 {notes.length}개 (롱노트 {holdCount}개)</p>
+              </div>
+
+              <div className="space-y-1 text-xs text-gray-400">
+                <p>• 클릭: 노트 배치 / 노트를 끌어서 이동 (롱노트 도구는 위로 끌어 길이 지정)</p>
+                <p>• 우클릭: 노트 삭제 · 파형 클릭: 커서 이동</p>
+                <p>• 휠, ↑/↓: 커서 이동 (Shift: 한 마디) · Ctrl+휠: 확대/축소</p>
+                <p>• 1~{keyMode}: 커서 위치에 노트 배치/삭제</p>
+                <p>• 노트 선택 후 ↑/↓/←/→: 이동 · Delete: 삭제</p>
+                <p>• Space: 재생/정지 · Ctrl+Z / Ctrl+Shift+Z: 실행 취소/다시 실행</p>
+                <p>• 자동 검증: 자동 플레이로 끝까지 쳐서 모든 노트가 최고 판정을 받는지 확인</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowLeft, Gamepad2, Keyboard, Plus, RotateCcw, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { KEY_MODES, type KeyMode } from "@/lib/game-config"
+import { getPressedGamepadButtons } from "@/lib/input-manager"
+import {
+  findKeyConflicts,
+  getDefaultGamepadLanes,
+  getDefaultLaneKeys,
+  getGamepadButtonLabel,
+  getKeyLabel,
+  type GamepadBindings,
+  type KeyBindings,
+} from "@/lib/key-bindings"
+import { cn } from "@/lib/utils"
+
+interface KeyBindingSettingsProps {
+  bindings: KeyBindings
+  gamepadBindings: GamepadBindings
+  initialKeyMode: KeyMode
+  onChange: (bindings: KeyBindings) => void
+  onGamepadChange: (bindings: GamepadBindings) => void
+  onClose: () => void
+}
+
+const KEY_MODE_LIST = Object.keys(KEY_MODES).map(Number) as KeyMode[]
+
+export function KeyBindingSettings({
+  bindings,
+  gamepadBindings,
+  initialKeyMode,
+  onChange,
+  onGamepadChange,
+  onClose,
+}: KeyBindingSettingsProps) {
+  const [keyMode, setKeyMode] = useState<KeyMode>(initialKeyMode)
+  // 새 키 입력을 기다리는 레인
+  const [listeningLane, setListeningLane] = useState<number | null>(null)
+  // 새 게임패드 버튼 입력을 기다리는 레인
+  const [listeningPadLane, setListeningPadLane] = useState<number | null>(null)
+
+  const laneKeys = bindings[keyMode]
+  const padLanes = gamepadBindings[keyMode]
+  const conflicts = findKeyConflicts(laneKeys)
+  const padConflicts = findKeyConflicts(padLanes)
+  const colors = KEY_MODES[keyMode].colors
+
+  const updateLaneKeys = (newLaneKeys: string[][]) => {
+    onChange({ ...bindings, [keyMode]: newLaneKeys })
+  }
+
+  const updatePadLanes = (newPadLanes: number[][]) => {
+    onGamepadChange({ ...gamepadBindings, [keyMode]: newPadLanes })
+  }
+
+  // 키 입력 대기 중이면 다음 키를 해당 레인에 추가
+  useEffect(() => {
+    if (listeningLane === null) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+      setListeningLane(null)
+
+      if (event.code === "Escape") return
+      if (laneKeys[listeningLane].includes(event.code)) return
+
+      // 다른 레인에 지정된 키는 그 레인에서 옮겨온다
+      const conflictLane = laneKeys.findIndex((codes) => codes.includes(event.code))
+      if (conflictLane !== -1) {
+        toast(`${getKeyLabel(event.code)} 키를 레인 ${conflictLane + 1}에서 레인 ${listeningLane + 1}(으)로 옮겼습니다`)
+      }
+
+      updateLaneKeys(
+        laneKeys.map((codes, lane) => {
+          if (lane === listeningLane) return [...codes, event.code]
+          return codes.filter((code) => code !== event.code)
+        }),
+      )
+    }
+
+    window.addEventListener("keydown", handleKeyDown, { capture: true })
+    return () => window.removeEventListener("keydown", handleKeyDown, { capture: true })
+  })
+
+  // 게임패드 버튼 입력 대기 (새로 눌린 버튼을 해당 레인에 추가, Esc로 취소)
+  useEffect(() => {
+    if (listeningPadLane === null) return
+
+    const initiallyPressed = new Set(getPressedGamepadButtons())
+    let frame = 0
+    const poll = () => {
+      const pressed = getPressedGamepadButtons()
+      // 대기 시작 시 이미 눌려 있던 버튼은 뗀 뒤에 다시 눌러야 인식
+      initiallyPressed.forEach((button) => {
+        if (!pressed.includes(button)) initiallyPressed.delete(button)
+      })
+      const button = pressed.find((index) => !initiallyPressed.has(index))
+      if (button === undefined) {
+        frame = requestAnimationFrame(poll)
+        return
+      }
+
+      setListeningPadLane(null)
+      if (padLanes[listeningPadLane].includes(button)) return
+      const conflictLane = padLanes.findIndex((buttons) => buttons.includes(button))
+      if (conflictLane !== -1) {
+        toast(
+          `${getGamepadButtonLabel(button)} 버튼을 레인 ${conflictLane + 1}에서 레인 ${listeningPadLane + 1}(으)로 옮겼습니다`,
+        )
+      }
+      updatePadLanes(
+        padLanes.map((buttons, lane) => {
+          if (lane === listeningPadLane) return [...buttons, button]
+          return buttons.filter((b) => b !== button)
+        }),
+      )
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === "Escape") setListeningPadLane(null)
+    }
+
+    frame = requestAnimationFrame(poll)
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  })
+
+  const removePadButton = (lane: number, button: number) => {
+    updatePadLanes(padLanes.map((buttons, index) => (index === lane ? buttons.filter((b) => b !== button) : buttons)))
+  }
+
+  const removeKey = (lane: number, code: string) => {
+    updateLaneKeys(laneKeys.map((codes, index) => (index === lane ? codes.filter((c) => c !== code) : codes)))
+  }
+
+  const emptyLanes = laneKeys.map((codes, lane) => (codes.length === 0 ? lane + 1 : null)).filter(Boolean)
+
+  return (
+    <Card className="bg-gray-900 border-gray-700">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2 text-white">
+          <Keyboard className="w-6 h-6" />키 설정
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          레인마다 여러 개의 키를 지정할 수 있습니다. 키 추가를 누른 뒤 원하는 키를 누르세요 (Esc: 취소)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* 키 모드 탭 */}
+        <div className="flex justify-center gap-2">
+          {KEY_MODE_LIST.map((mode) => (
+            <Button
+              key={mode}
+              onClick={() => {
+                setKeyMode(mode)
+                setListeningLane(null)
+                setListeningPadLane(null)
+              }}
+              variant="outline"
+              size="sm"
+              className={cn(
+                "border-gray-600 text-white hover:bg-gray-700 hover:text-white",
+                mode === keyMode ? "bg-purple-600 hover:bg-purple-700" : "bg-gray-800",
+              )}
+            >
+              {mode}키
+            </Button>
+          ))}
+        </div>
+
+        {/* 레인별 키 */}
+        <div
+          className={`grid gap-3 ${keyMode === 4 ? "grid-cols-4" : keyMode === 6 ? "grid-cols-6" : "grid-cols-8"}`}
+        >
+          {laneKeys.map((codes, lane) => (
+            <div key={lane} className="space-y-2 text-center">
+              <div className={`h-2 rounded ${colors[lane]}`} />
+              <p className="text-xs text-gray-400">레인 {lane + 1}</p>
+              {codes.map((code) => (
+                <div
+                  key={code}
+                  className={cn(
+                    "flex items-center justify-between rounded-md border px-2 py-1 text-sm font-bold text-white",
+                    conflicts.has(code) ? "border-red-500 bg-red-500/20" : "border-gray-600 bg-gray-800",
+                  )}
+                >
+                  <span className="truncate">{getKeyLabel(code)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeKey(lane, code)}
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setListeningLane(lane)}
+                className={cn(
+                  "flex w-full items-center justify-center gap-1 rounded-md border border-dashed px-2 py-1 text-xs",
+                  listeningLane === lane
+                    ? "border-purple-400 text-purple-300 animate-pulse"
+                    : "border-gray-600 text-gray-400 hover:text-white",
+                )}
+              >
+                {listeningLane === lane ? (
+                  "키 입력..."
+                ) : (
+                  <>
+                    <Plus className="w-3 h-3" />키 추가
+                  </>
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* 레인별 게임패드 버튼 */}
+        <div className="space-y-2">
+          <p className="flex items-center justify-center gap-2 text-sm text-gray-300">
+            <Gamepad2 className="w-4 h-4" />
+            게임패드
+          </p>
+          <div
+            className={`grid gap-3 ${keyMode === 4 ? "grid-cols-4" : keyMode === 6 ? "grid-cols-6" : "grid-cols-8"}`}
+          >
+            {padLanes.map((buttons, lane) => (
+              <div key={lane} className="space-y-2 text-center">
+                {buttons.map((button) => (
+                  <div
+                    key={button}
+                    className={cn(
+                      "flex items-center justify-between rounded-md border px-2 py-1 text-sm font-bold text-white",
+                      padConflicts.has(button) ? "border-red-500 bg-red-500/20" : "border-gray-600 bg-gray-800",
+                    )}
+                  >
+                    <span className="truncate">{getGamepadButtonLabel(button)}</span>
+                    <button
+                      type="button"
+                      onClick={() => removePadButton(lane, button)}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setListeningPadLane(lane)}
+                  className={cn(
+                    "flex w-full items-center justify-center gap-1 rounded-md border border-dashed px-2 py-1 text-xs",
+                    listeningPadLane === lane
+                      ? "border-purple-400 text-purple-300 animate-pulse"
+                      : "border-gray-600 text-gray-400 hover:text-white",
+                  )}
+                >
+                  {listeningPadLane === lane ? (
+                    "버튼 입력..."
+                  ) : (
+                    <>
+                      <Plus className="w-3 h-3" />
+                      버튼 추가
+                    </>
+                  )}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {padConflicts.size > 0 && (
+          <p className="text-center text-sm text-red-400">
+            여러 레인에 지정된 버튼이 있습니다: {[...padConflicts.keys()].map(getGamepadButtonLabel).join(", ")}
+          </p>
+        )}
+        {conflicts.size > 0 && (
+          <p className="text-center text-sm text-red-400">
+            여러 레인에 지정된 키가 있습니다: {[...conflicts.keys()].map(getKeyLabel).join(", ")}
+          </p>
+        )}
+        {emptyLanes.length > 0 && (
+          <p className="text-center text-sm text-yellow-400">키가 없는 레인이 있습니다: {emptyLanes.join(", ")}</p>
+        )}
+
+        <div className="flex justify-center gap-3">
+          <Button
+            onClick={() => {
+              updateLaneKeys(getDefaultLaneKeys(keyMode))
+              updatePadLanes(getDefaultGamepadLanes(keyMode))
+            }}
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            기본값으로
+          </Button>
+          <Button onClick={onClose} className="bg-purple-600 hover:bg-purple-700">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            돌아가기
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { GAUGE_TYPES, isGaugeCleared, type GaugeState } from "@/lib/gauge"
+import { cn } from "@/lib/utils"
+
+interface LifeGaugeProps {
+  gauge: GaugeState
+  height: number // 막대 높이 (px, 게임 영역과 같은 높이)
+}
+
+// 게임 영역 옆의 세로 게이지 (클리어 기준선 표시)
+export function LifeGauge({ gauge, height }: LifeGaugeProps) {
+  const config = GAUGE_TYPES[gauge.type]
+  const cleared = isGaugeCleared(gauge)
+
+  return (
+    <div className="flex flex-col items-center gap-2" style={{ height }}>
+      <div className={cn("text-xs font-bold", gauge.failed ? "text-red-400" : "text-gray-300")}>
+        {Math.floor(gauge.value)}%
+      </div>
+      <div className="relative w-5 flex-1 overflow-hidden rounded-full border border-gray-700 bg-gray-900">
+        <div
+          className={cn(
+            "absolute inset-x-0 bottom-0 transition-[height] duration-100",
+            config.color,
+            !cleared && gauge.type !== "hard" && "opacity-60",
+          )}
+          style={{ height: `${gauge.value}%` }}
+        />
+        {config.clearAt > 0 && (
+          <div className="absolute inset-x-0 h-0.5 bg-white/80" style={{ bottom: `${config.clearAt}%` }} />
+        )}
+      </div>
+      <div className="text-xs text-gray-400">{config.name}</div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { Shuffle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GAUGE_TYPES, type GaugeType } from "@/lib/gauge"
+import {
+  AUTO_PLAY_JITTERS,
+  LANE_MODIFIER_NAMES,
+  MAX_LANE_COVER,
+  type LaneModifier,
+  type Modifiers,
+} from "@/lib/modifiers"
+import { cn } from "@/lib/utils"
+
+interface ModifierSettingsProps {
+  modifiers: Modifiers
+  onChange: (modifiers: Modifiers) => void
+}
+
+const TOGGLES: { key: "hidden" | "sudden" | "beatLines" | "noFail" | "autoPlay"; label: string }[] = [
+  { key: "hidden", label: "히든" },
+  { key: "sudden", label: "서든" },
+  { key: "beatLines", label: "박자선" },
+  { key: "noFail", label: "실패 없음" },
+  { key: "autoPlay", label: "자동 플레이" },
+]
+
+// 플레이 옵션 (레인 배치, 게이지, 노트 가리기, 자동 플레이)
+export function ModifierSettings({ modifiers, onChange }: ModifierSettingsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-4">
+      <Shuffle className="w-5 h-5 text-gray-400" />
+      <span className="text-gray-300">옵션:</span>
+      <Select value={modifiers.lanes} onValueChange={(value) => onChange({ ...modifiers, lanes: value as LaneModifier })}>
+        <SelectTrigger className="w-[120px] bg-gray-800 border-gray-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-600 text-white">
+          {(Object.keys(LANE_MODIFIER_NAMES) as LaneModifier[]).map((lanes) => (
+            <SelectItem key={lanes} value={lanes}>
+              {LANE_MODIFIER_NAMES[lanes]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={modifiers.gauge} onValueChange={(value) => onChange({ ...modifiers, gauge: value as GaugeType })}>
+        <SelectTrigger className="w-[140px] bg-gray-800 border-gray-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-600 text-white">
+          {(Object.keys(GAUGE_TYPES) as GaugeType[]).map((gauge) => (
+            <SelectItem key={gauge} value={gauge}>
+              {GAUGE_TYPES[gauge].name} 게이지
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {TOGGLES.map(({ key, label }) => (
+        <Button
+          key={key}
+          onClick={() => onChange({ ...modifiers, [key]: !modifiers[key] })}
+          variant="outline"
+          size="sm"
+          className={cn(
+            "border-gray-600 hover:text-white",
+            modifiers[key]
+              ? "bg-purple-600 text-white hover:bg-purple-700"
+              : "bg-gray-800 text-gray-300 hover:bg-gray-700",
+          )}
+        >
+          {label}
+        </Button>
+      ))}
+      {modifiers.autoPlay && (
+        <Select
+          value={modifiers.autoPlayJitter.toString()}
+          onValueChange={(value) => onChange({ ...modifiers, autoPlayJitter: Number(value) })}
+        >
+          <SelectTrigger className="w-[110px] bg-gray-800 border-gray-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-600 text-white">
+            {AUTO_PLAY_JITTERS.map((jitter) => (
+              <SelectItem key={jitter} value={jitter.toString()}>
+                {jitter > 0 ? `±${jitter}ms` : "정확히"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        가림막
+        <input
+          type="range"
+          min={0}
+          max={MAX_LANE_COVER * 100}
+          step={5}
+          value={Math.round(modifiers.laneCover * 100)}
+          onChange={(event) => onChange({ ...modifiers, laneCover: Number(event.target.value) / 100 })}
+          className="w-24 accent-purple-500"
+        />
+        <span className="w-8 text-right text-xs text-gray-400">{Math.round(modifiers.laneCover * 100)}%</span>
+      </label>
+    </div>
+  )
+}
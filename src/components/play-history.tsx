@@ -0,0 +1,115 @@
+"use client"
+
+import { History, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DIFFICULTY_SETTINGS, JUDGMENT_DISPLAY } from "@/lib/game-config"
+import { describeModifiers } from "@/lib/modifiers"
+import { CLEAR_LAMPS, type ClearLamp, type PlayRecord } from "@/lib/score-storage"
+import { getJudgmentCounts } from "@/lib/stats"
+import { cn } from "@/lib/utils"
+
+const MAX_VISIBLE_RECORDS = 20
+
+export function ClearLampBadge({ lamp, short = false }: { lamp: ClearLamp; short?: boolean }) {
+  const config = CLEAR_LAMPS[lamp]
+  return (
+    <span className={cn("rounded border px-1 text-[10px] font-bold leading-4", config.color)}>
+      {short ? config.short : config.label}
+    </span>
+  )
+}
+
+interface PlayHistoryProps {
+  records: PlayRecord[]
+  chartId: string // 현재 선택한 채보
+  showAll: boolean
+  onToggleShowAll: () => void
+  onClear: () => void
+}
+
+export function PlayHistory({ records, chartId, showAll, onToggleShowAll, onClear }: PlayHistoryProps) {
+  const visibleRecords = (showAll ? records : records.filter((record) => record.chartId === chartId)).slice(
+    0,
+    MAX_VISIBLE_RECORDS,
+  )
+
+  return (
+    <Card className="bg-gray-900 border-gray-700 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <History className="w-5 h-5" />
+          플레이 기록
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            onClick={onToggleShowAll}
+            variant="outline"
+            size="sm"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            {showAll ? "선택한 채보만" : "전체 보기"}
+          </Button>
+          <Button
+            onClick={onClear}
+            disabled={records.length === 0}
+            variant="outline"
+            size="sm"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            기록 삭제
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visibleRecords.length === 0 ? (
+          <p className="text-center text-gray-400">아직 플레이 기록이 없습니다</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleRecords.map((record) => (
+              <div
+                key={record.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-gray-800 p-3 text-sm"
+              >
+                <div>
+                  <div className="flex items-center gap-2 font-bold text-white">
+                    {record.title}
+                    <ClearLampBadge lamp={record.lamp} />
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {new Date(record.timestamp).toLocaleString("ko-KR")} · {record.keyMode}키 ·{" "}
+                    <span className={DIFFICULTY_SETTINGS[record.difficulty].color}>
+                      {DIFFICULTY_SETTINGS[record.difficulty].name}
+                    </span>{" "}
+                    · {record.speedMultiplier.toFixed(2)}x
+                    {record.modifiers && describeModifiers(record.modifiers).length > 0 && (
+                      <span className="text-cyan-300"> · {describeModifiers(record.modifiers).join(" · ")}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-4 text-right">
+                  <div>
+                    <div className="font-bold text-yellow-400">{record.stats.score.toLocaleString()}</div>
+                    <div className="text-xs text-gray-400">{record.accuracy.toFixed(2)}%</div>
+                  </div>
+                  <div className="text-xs text-gray-300">
+                    <div>
+                      {getJudgmentCounts(record.stats).map(({ judgment, count }, index) => (
+                        <span key={judgment}>
+                          {index > 0 && " / "}
+                          <span className={JUDGMENT_DISPLAY[judgment].className}>{count}</span>
+                        </span>
+                      ))}
+                    </div>
+                    <div>최대 콤보 {record.stats.maxCombo}</div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
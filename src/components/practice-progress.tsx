@@ -0,0 +1,46 @@
+"use client"
+
+import { Repeat } from "lucide-react"
+import type { PracticeSession } from "@/lib/practice"
+import { cn } from "@/lib/utils"
+
+interface PracticeProgressProps {
+  session: PracticeSession
+  loops: number[] // 끝난 회차별 정확도 (%)
+}
+
+const MAX_BARS = 20
+
+const formatSeconds = (ms: number) => `${(Math.max(0, ms) / 1000).toFixed(1)}초`
+
+// 연습 구간과 회차별 정확도 (최근 회차를 막대로, 최고 기록은 강조)
+export function PracticeProgress({ session, loops }: PracticeProgressProps) {
+  const best = loops.length > 0 ? Math.max(...loops) : null
+  const latest = loops.length > 0 ? loops[loops.length - 1] : null
+  const shown = loops.slice(-MAX_BARS)
+  const firstShown = loops.length - shown.length
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 bg-gray-900 p-3 rounded-lg border border-gray-700 text-sm">
+      <div className="flex items-center gap-2 text-white">
+        <Repeat className="w-4 h-4 text-purple-400" />
+        연습 {formatSeconds(session.range.start)} ~ {formatSeconds(session.range.end)} |{" "}
+        <span className="text-purple-400 font-bold">{session.rate.toFixed(2)}x</span> | {loops.length + 1}회차
+      </div>
+      <div className="flex h-10 flex-1 items-end gap-1">
+        {shown.map((accuracy, index) => (
+          <div
+            key={firstShown + index}
+            title={`${firstShown + index + 1}회차: ${accuracy.toFixed(2)}%`}
+            className={cn("w-3 rounded-sm", accuracy === best ? "bg-yellow-400" : "bg-cyan-400/70")}
+            style={{ height: `${Math.max(4, accuracy)}%` }}
+          />
+        ))}
+      </div>
+      <div className="text-gray-300">
+        직전 <span className="text-cyan-300 font-bold">{latest !== null ? `${latest.toFixed(2)}%` : "-"}</span> · 최고{" "}
+        <span className="text-yellow-400 font-bold">{best !== null ? `${best.toFixed(2)}%` : "-"}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ArrowLeft, Repeat } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { END_DELAY, type Note } from "@/lib/game-config"
+import { getLastNoteTime } from "@/lib/judge"
+import {
+  MAX_LEAD_IN,
+  MAX_PRACTICE_RATE,
+  MIN_PRACTICE_RATE,
+  PRACTICE_RATE_STEP,
+  getMeasureAt,
+  getMeasureTime,
+  getNoteDensity,
+  getPracticeNotes,
+  type PracticeRange,
+  type PracticeSettings,
+} from "@/lib/practice"
+import type { TimingMap } from "@/lib/timing"
+import { cn } from "@/lib/utils"
+
+interface PracticeSetupProps {
+  title: string
+  notes: Note[]
+  timing?: TimingMap // 채보의 박자 정보 (랜덤 채보는 없어서 시간으로만 고른다)
+  initialRange?: PracticeRange // 직전 연습 구간 (없으면 채보 전체)
+  settings: PracticeSettings
+  onChange: (settings: PracticeSettings) => void
+  onStart: (range: PracticeRange) => void
+  onClose: () => void
+}
+
+const OVERVIEW_HEIGHT = 96
+const DENSITY_BINS = 160
+const TIME_SNAP = 100 // 시간으로 고를 때 맞추는 단위 (ms)
+const MIN_TIME_RANGE = 1000 // 시간으로 고를 때 최소 구간 길이 (ms)
+
+const formatTime = (ms: number) => {
+  const tenths = Math.max(0, Math.round(ms / 100))
+  const seconds = Math.floor(tenths / 10)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}.${tenths % 10}`
+}
+
+// 연습 구간, 재생 속도, 준비 시간 설정 (채보 개요를 끌어서 구간 선택)
+export function PracticeSetup({
+  title,
+  notes,
+  timing,
+  initialRange,
+  settings,
+  onChange,
+  onStart,
+  onClose,
+}: PracticeSetupProps) {
+  const duration = getLastNoteTime(notes) + END_DELAY
+  const [unit, setUnit] = useState<"time" | "measure">(timing ? "measure" : "time")
+  const [range, setRange] = useState<PracticeRange>(initialRange ?? { start: 0, end: duration })
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragAnchorRef = useRef<number | null>(null)
+
+  const density = useMemo(() => getNoteDensity(notes, duration, DENSITY_BINS), [notes, duration])
+  const rangeNoteCount = getPracticeNotes(notes, range).length
+  const measureUnit = unit === "measure" && timing !== undefined
+
+  // 두 시각 사이를 구간으로 (마디 단위면 두 시각이 속한 마디 전체)
+  const selectRange = (from: number, to: number) => {
+    const low = Math.max(0, Math.min(from, to))
+    const high = Math.min(duration, Math.max(from, to))
+    if (measureUnit) {
+      const first = getMeasureAt(timing, low)
+      const last = Math.max(first, getMeasureAt(timing, high))
+      setRange({ start: getMeasureTime(timing, first), end: getMeasureTime(timing, last + 1) })
+      return
+    }
+    const start = Math.floor(low / TIME_SNAP) * TIME_SNAP
+    setRange({ start, end: Math.max(Math.ceil(high / TIME_SNAP) * TIME_SNAP, start + MIN_TIME_RANGE) })
+  }
+
+  // 캔버스 x 좌표 → 곡 시간
+  const getPointerTime = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return (Math.max(0, Math.min(rect.width, event.clientX - rect.left)) / rect.width) * duration
+  }
+
+  // 채보 개요 (구간별 노트 밀도, 마디선, 선택한 구간)
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    const width = canvas.clientWidth
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = Math.round(width * dpr)
+    canvas.height = Math.round(OVERVIEW_HEIGHT * dpr)
+    context.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+    context.fillStyle = "#111827"
+    context.fillRect(0, 0, width, OVERVIEW_HEIGHT)
+    const toX = (time: number) => (time / duration) * width
+
+    // 마디선 (너무 촘촘하면 몇 마디씩 건너뛴다)
+    if (timing) {
+      const lastMeasure = getMeasureAt(timing, duration)
+      const step = Math.max(1, Math.ceil((lastMeasure * 6) / Math.max(1, width)))
+      context.fillStyle = "#1f2937"
+      for (let measure = 1; measure <= lastMeasure; measure += step) {
+        context.fillRect(Math.round(toX(getMeasureTime(timing, measure))), 0, 1, OVERVIEW_HEIGHT)
+      }
+    }
+
+    const maxDensity = Math.max(1, ...density)
+    const binWidth = width / density.length
+    context.fillStyle = "#a78bfa"
+    density.forEach((count, bin) => {
+      const height = (count / maxDensity) * (OVERVIEW_HEIGHT - 8)
+      context.fillRect(bin * binWidth, OVERVIEW_HEIGHT - height, Math.max(1, binWidth - 1), height)
+    })
+
+    const startX = toX(range.start)
+    const endX = Math.min(width, toX(range.end))
+    context.fillStyle = "rgba(168, 85, 247, 0.25)"
+    context.fillRect(startX, 0, endX - startX, OVERVIEW_HEIGHT)
+    context.fillStyle = "#e9d5ff"
+    context.fillRect(startX, 0, 2, OVERVIEW_HEIGHT)
+    context.fillRect(endX - 2, 0, 2, OVERVIEW_HEIGHT)
+  }, [density, duration, range, timing])
+
+  // 단위를 바꾸면 지금 구간을 새 단위에 맞춘다
+  useEffect(() => {
+    setRange((prev) => {
+      if (unit !== "measure" || !timing) return prev
+      const first = getMeasureAt(timing, prev.start)
+      const last = Math.max(first, getMeasureAt(timing, prev.end - 1))
+      return { start: getMeasureTime(timing, first), end: getMeasureTime(timing, last + 1) }
+    })
+  }, [unit, timing])
+
+  const inputClass = "w-20 rounded-md border border-gray-600 bg-gray-800 px-2 py-1 text-sm text-white"
+
+  return (
+    <Card className="bg-gray-900 border-gray-700">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2 text-white">
+          <Repeat className="w-6 h-6" />
+          연습 모드
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          {title} · 개요를 끌어서 구간을 고르면 그 구간을 반복합니다 (기록은 저장하지 않습니다)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <canvas
+            ref={canvasRef}
+            className="w-full cursor-crosshair rounded-md border border-gray-700"
+            style={{ height: OVERVIEW_HEIGHT, touchAction: "none" }}
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId)
+              const time = getPointerTime(event)
+              dragAnchorRef.current = time
+              selectRange(time, time)
+            }}
+            onPointerMove={(event) => {
+              if (dragAnchorRef.current !== null) selectRange(dragAnchorRef.current, getPointerTime(event))
+            }}
+            onPointerUp={() => {
+              dragAnchorRef.current = null
+            }}
+          />
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>{formatTime(0)}</span>
+            <span>{formatTime(duration)}</span>
+          </div>
+        </div>
+
+        {/* 구간 직접 입력 (마디 번호는 1부터, 끝 마디 포함) */}
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+          {(["measure", "time"] as const).map((value) => (
+            <Button
+              key={value}
+              disabled={value === "measure" && !timing}
+              onClick={() => setUnit(value)}
+              variant="outline"
+              size="sm"
+              className={cn(
+                "border-gray-600 hover:text-white",
+                unit === value
+                  ? "bg-purple-600 text-white hover:bg-purple-700"
+                  : "bg-gray-800 text-gray-300 hover:bg-gray-700",
+              )}
+            >
+              {value === "measure" ? "마디" : "시간"}
+            </Button>
+          ))}
+          {measureUnit ? (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={getMeasureAt(timing, range.start)}
+                onChange={(event) => {
+                  const measure = Number.parseInt(event.target.value)
+                  if (measure >= 1) selectRange(getMeasureTime(timing, measure), Math.max(range.end - 1, 0))
+                }}
+                className={inputClass}
+              />
+              <span>마디 ~</span>
+              <input
+                type="number"
+                min={1}
+                value={getMeasureAt(timing, range.end - 1)}
+                onChange={(event) => {
+                  const measure = Number.parseInt(event.target.value)
+                  if (measure >= 1) selectRange(range.start, getMeasureTime(timing, measure))
+                }}
+                className={inputClass}
+              />
+              <span>마디</span>
+            </>
+          ) : (
+            <>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={Math.round(range.start / 100) / 10}
+                onChange={(event) => {
+                  const seconds = Number.parseFloat(event.target.value)
+                  if (seconds >= 0) selectRange(seconds * 1000, range.end)
+                }}
+                className={inputClass}
+              />
+              <span>초 ~</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={Math.round(range.end / 100) / 10}
+                onChange={(event) => {
+                  const seconds = Number.parseFloat(event.target.value)
+                  if (seconds >= 0) selectRange(range.start, seconds * 1000)
+                }}
+                className={inputClass}
+              />
+              <span>초</span>
+            </>
+          )}
+          <span className="text-xs text-gray-400">
+            {formatTime(range.start)} ~ {formatTime(range.end)} · 노트 {rangeNoteCount}개
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-6 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            재생 속도
+            <input
+              type="range"
+              min={MIN_PRACTICE_RATE}
+              max={MAX_PRACTICE_RATE}
+              step={PRACTICE_RATE_STEP}
+              value={settings.rate}
+              onChange={(event) => onChange({ ...settings, rate: Number(event.target.value) })}
+              className="w-32 accent-purple-500"
+            />
+            <span className="w-12 text-right text-xs text-gray-400">{settings.rate.toFixed(2)}x</span>
+          </label>
+          <label className="flex items-center gap-2">
+            준비 시간
+            <input
+              type="range"
+              min={0}
+              max={MAX_LEAD_IN}
+              step={250}
+              value={settings.leadIn}
+              onChange={(event) => onChange({ ...settings, leadIn: Number(event.target.value) })}
+              className="w-32 accent-purple-500"
+            />
+            <span className="w-12 text-right text-xs text-gray-400">{(settings.leadIn / 1000).toFixed(2)}초</span>
+          </label>
+        </div>
+
+        <div className="flex justify-center gap-3">
+          <Button
+            onClick={() => onStart(range)}
+            disabled={rangeNoteCount === 0}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <Repeat className="w-4 h-4 mr-1" />
+            연습 시작
+          </Button>
+          <Button
+            onClick={onClose}
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            돌아가기
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,309 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { ArrowLeft, CheckCircle2, Download, FastForward, Pause, Play, Rewind, TriangleAlert } from "lucide-react"
+import { LifeGauge } from "@/components/life-gauge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  BASE_NOTE_SPEED,
+  DIFFICULTY_SETTINGS,
+  END_DELAY,
+  GAME_HEIGHT,
+  JUDGMENT_DISPLAY,
+  type Note,
+} from "@/lib/game-config"
+import { GameEngine } from "@/lib/game-engine"
+import { createGaugeState } from "@/lib/gauge"
+import { getLastNoteTime } from "@/lib/judge"
+import { getGaugeSettings } from "@/lib/modifiers"
+import { CanvasRenderer, createNoteTimeline } from "@/lib/renderer"
+import type { TimingMap } from "@/lib/timing"
+import { isSameStats, simulateReplay, type Replay } from "@/lib/replay"
+import { getJudgmentCounts } from "@/lib/stats"
+import { cn } from "@/lib/utils"
+
+interface ReplayViewerProps {
+  replay: Replay
+  notes: Note[]
+  timing?: TimingMap // 채보의 변속과 스크롤 속도 변화 (랜덤 채보는 없음)
+  onExport: () => void
+  onClose: () => void
+}
+
+const LANE_WIDTH = 60
+const SEEK_STEP = 5000
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.5, 2]
+
+// 리플레이 재생 상태 (앞으로 진행할 때는 이어서 계산하고, 되감으면 처음부터 다시 계산)
+interface Playback {
+  engine: GameEngine
+  inputIndex: number
+  heldLanes: Set<number>
+}
+
+export function ReplayViewer({ replay, notes, timing, onExport, onClose }: ReplayViewerProps) {
+  const [time, setTime] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [rate, setRate] = useState(1)
+  const [stats, setStats] = useState(replay.stats)
+  const gaugeSettings = useMemo(() => getGaugeSettings(replay.modifiers), [replay])
+  const [gauge, setGauge] = useState(() => createGaugeState(gaugeSettings.type))
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<CanvasRenderer | null>(null)
+  const playbackRef = useRef<Playback | null>(null)
+  const timeRef = useRef(0)
+
+  const duration = getLastNoteTime(notes) + END_DELAY
+  const canvasWidth = replay.keyMode * LANE_WIDTH
+  const scrollSpeed = BASE_NOTE_SPEED * replay.speedMultiplier * DIFFICULTY_SETTINGS[replay.difficulty].speedMultiplier
+
+  // 기록된 입력을 처음부터 끝까지 판정에 다시 넣은 결과가 플레이 당시 결과와 같은지
+  const reproduced = useMemo(
+    () => simulateReplay(notes, replay.inputs, Infinity, replay.stats.ruleset, gaugeSettings).stats,
+    [notes, replay, gaugeSettings],
+  )
+  const matches = isSameStats(reproduced, replay.stats)
+  const timeline = useMemo(() => createNoteTimeline(new GameEngine(notes).notes, timing), [notes, timing])
+
+  // time까지 기록된 입력을 판정 규칙에 적용
+  const simulateTo = useCallback(
+    (target: number) => {
+      let playback = playbackRef.current
+      if (!playback || target < playback.engine.time) {
+        const engine = new GameEngine(notes, replay.stats.ruleset, gaugeSettings)
+        engine.on("judgment", (event) => rendererRef.current?.addEffect(event, event.time))
+        playback = { engine, inputIndex: 0, heldLanes: new Set() }
+        rendererRef.current?.clearEffects()
+      }
+
+      const { inputs } = replay
+      while (playback.inputIndex < inputs.length && inputs[playback.inputIndex][0] <= target) {
+        const [inputTime, lane, pressed] = inputs[playback.inputIndex]
+        if (pressed) {
+          playback.engine.press(lane, inputTime)
+          playback.heldLanes.add(lane)
+        } else {
+          playback.engine.release(lane, inputTime)
+          playback.heldLanes.delete(lane)
+        }
+        playback.inputIndex++
+      }
+      playback.engine.tick(target)
+
+      playbackRef.current = playback
+      return playback
+    },
+    [notes, replay, gaugeSettings],
+  )
+
+  // 현재 시각의 게임 화면 그리기
+  const draw = useCallback(
+    (current: number, playback: Playback) => {
+      rendererRef.current?.render({
+        time: current,
+        timeline,
+        notes: playback.engine.notes,
+        pressedLanes: playback.heldLanes,
+      })
+    },
+    [timeline],
+  )
+
+  // 특정 시각으로 이동
+  const seek = useCallback(
+    (target: number) => {
+      const clamped = Math.max(0, Math.min(duration, target))
+      timeRef.current = clamped
+      const playback = simulateTo(clamped)
+      draw(clamped, playback)
+      setTime(clamped)
+      setStats(playback.engine.stats)
+      setGauge(playback.engine.gauge)
+    },
+    [duration, simulateTo, draw],
+  )
+
+  // 재생 루프 (재생 속도만큼 시간 진행)
+  useEffect(() => {
+    if (!playing) return
+
+    let frame = 0
+    let last = performance.now()
+    const loop = (now: number) => {
+      const next = timeRef.current + (now - last) * rate
+      last = now
+      seek(next)
+      if (next >= duration) {
+        setPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(loop)
+    }
+    frame = requestAnimationFrame(loop)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, rate, duration, seek])
+
+  // 게임 화면 렌더러
+  useEffect(() => {
+    if (!canvasRef.current) return
+    const renderer = new CanvasRenderer(canvasRef.current, {
+      keyMode: replay.keyMode,
+      scrollSpeed,
+      beatLines: replay.modifiers?.beatLines,
+    })
+    rendererRef.current = renderer
+    return () => {
+      renderer.dispose()
+      rendererRef.current = null
+    }
+  }, [replay.keyMode, replay.modifiers, scrollSpeed])
+
+  // 리플레이가 바뀌면 처음부터
+  useEffect(() => {
+    playbackRef.current = null
+    seek(0)
+  }, [seek])
+
+  const togglePlaying = () => {
+    if (!playing && timeRef.current >= duration) {
+      seek(0)
+    }
+    setPlaying((prev) => !prev)
+  }
+
+  const formatTime = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000))
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-700">
+      <CardHeader className="text-center">
+        <CardTitle className="text-white">리플레이: {replay.title}</CardTitle>
+        <CardDescription className="text-gray-300">
+          {replay.keyMode}키 | {DIFFICULTY_SETTINGS[replay.difficulty].name} | {replay.speedMultiplier.toFixed(2)}x |{" "}
+          {new Date(replay.recordedAt).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col items-center gap-4 md:flex-row md:items-start md:justify-center">
+          <div className="flex gap-3">
+            <canvas
+              ref={canvasRef}
+              className="rounded-lg border border-gray-700 bg-gradient-to-b from-gray-900 to-gray-800 shadow-2xl"
+              style={{ width: canvasWidth, height: GAME_HEIGHT }}
+            />
+            <LifeGauge gauge={gauge} height={GAME_HEIGHT} />
+          </div>
+
+          <div className="w-full max-w-xs space-y-4 text-white">
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div>
+                <div className="text-2xl font-bold text-yellow-400">{stats.score.toLocaleString()}</div>
+                <div className="text-xs text-gray-400">점수</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-400">{stats.combo}</div>
+                <div className="text-xs text-gray-400">콤보 (최대 {stats.maxCombo})</div>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {getJudgmentCounts(stats).map(({ judgment, count }) => (
+                <div key={judgment}>
+                  <div className={cn("text-xl font-bold", JUDGMENT_DISPLAY[judgment].className)}>{count}</div>
+                  <div className="text-xs text-gray-400">{JUDGMENT_DISPLAY[judgment].label}</div>
+                </div>
+              ))}
+            </div>
+
+            {matches ? (
+              <p className="flex items-center justify-center gap-1 text-sm text-green-400">
+                <CheckCircle2 className="w-4 h-4" />
+                기록된 결과와 일치합니다 ({replay.stats.score.toLocaleString()}점)
+              </p>
+            ) : (
+              <p className="flex items-center justify-center gap-1 text-sm text-yellow-400">
+                <TriangleAlert className="w-4 h-4" />
+                기록된 결과({replay.stats.score.toLocaleString()}점)와 다릅니다
+              </p>
+            )}
+
+            {/* 재생 조작 */}
+            <div className="space-y-2">
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={10}
+                value={time}
+                onChange={(event) => seek(Number(event.target.value))}
+                className="w-full accent-purple-500"
+              />
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{formatTime(time)}</span>
+                <span>{formatTime(duration)}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-center gap-2">
+              <Button
+                onClick={() => seek(timeRef.current - SEEK_STEP)}
+                variant="outline"
+                size="icon"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <Rewind className="w-4 h-4" />
+              </Button>
+              <Button onClick={togglePlaying} className="bg-purple-600 hover:bg-purple-700">
+                {playing ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                {playing ? "일시정지" : "재생"}
+              </Button>
+              <Button
+                onClick={() => seek(timeRef.current + SEEK_STEP)}
+                variant="outline"
+                size="icon"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <FastForward className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-300">재생 속도:</span>
+              <Select value={rate.toString()} onValueChange={(value) => setRate(Number(value))}>
+                <SelectTrigger className="w-[100px] bg-gray-800 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-600 text-white">
+                  {PLAYBACK_RATES.map((value) => (
+                    <SelectItem key={value} value={value.toString()}>
+                      {value}x
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-center gap-3">
+          <Button
+            onClick={onExport}
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            리플레이 저장
+          </Button>
+          <Button onClick={onClose} className="bg-purple-600 hover:bg-purple-700">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            돌아가기
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
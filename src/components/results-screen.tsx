@@ -0,0 +1,129 @@
+"use client"
+
+import { Download, Film, Home, RotateCcw, Trophy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { JUDGMENT_DISPLAY, RULESETS, type GameStats } from "@/lib/game-config"
+import { GAUGE_TYPES, type GaugeState } from "@/lib/gauge"
+import { getClearLamp } from "@/lib/score-storage"
+import { getAccuracy, getJudgmentCounts, getRank } from "@/lib/stats"
+import { cn } from "@/lib/utils"
+
+interface ResultsScreenProps {
+  stats: GameStats
+  gauge: GaugeState // 끝났을 때의 게이지 (클리어 여부)
+  title: string // 곡 제목 또는 모드 설명
+  description: string
+  onRetry: () => void
+  onMenu: () => void
+  // 리플레이가 있을 때만 표시
+  onWatchReplay?: () => void
+  onExportReplay?: () => void
+}
+
+export function ResultsScreen({
+  stats,
+  gauge,
+  title,
+  description,
+  onRetry,
+  onMenu,
+  onWatchReplay,
+  onExportReplay,
+}: ResultsScreenProps) {
+  const accuracy = getAccuracy(stats)
+  const rank = getRank(accuracy)
+  // 풀 콤보는 게이지와 무관하게 클리어
+  const cleared = getClearLamp(stats, gauge) !== "failed"
+
+  return (
+    <Card className="bg-gray-900 border-gray-700">
+      <CardHeader className="text-center">
+        <CardTitle className="flex items-center justify-center gap-2 text-white">
+          <Trophy className="w-6 h-6" />
+          {title}
+        </CardTitle>
+        <CardDescription className="text-gray-300">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="text-center space-y-6">
+        {/* 랭크와 클리어 여부 */}
+        <div className={`text-8xl font-bold drop-shadow-lg ${rank.color}`}>{rank.rank}</div>
+        <div>
+          <div className={cn("text-2xl font-bold tracking-widest", cleared ? "text-green-400" : "text-red-400")}>
+            {cleared ? "CLEAR" : "FAILED"}
+          </div>
+          <div className="text-sm text-gray-400">
+            {GAUGE_TYPES[gauge.type].name} 게이지 {Math.floor(gauge.value)}%
+            {gauge.failed && " (게이지 소진)"}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <div className="text-3xl font-bold text-yellow-400">{stats.score.toLocaleString()}</div>
+            <div className="text-sm text-gray-400">점수</div>
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-white">{accuracy.toFixed(2)}%</div>
+            <div className="text-sm text-gray-400">정확도</div>
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-blue-400">{stats.maxCombo}</div>
+            <div className="text-sm text-gray-400">최대 콤보</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          {getJudgmentCounts(stats).map(({ judgment, count }) => (
+            <div key={judgment} className="rounded-lg bg-gray-800 p-3">
+              <div className={cn("text-2xl font-bold", JUDGMENT_DISPLAY[judgment].className)}>{count}</div>
+              <div className="text-sm text-gray-400">{JUDGMENT_DISPLAY[judgment].label}</div>
+            </div>
+          ))}
+        </div>
+        <div className="text-xs text-gray-500">판정 규칙: {RULESETS[stats.ruleset].name}</div>
+
+        <div className="flex justify-center gap-3">
+          <Button onClick={onRetry} size="lg" className="bg-purple-600 hover:bg-purple-700 shadow-lg">
+            <RotateCcw className="w-5 h-5 mr-2" />
+            다시 하기
+          </Button>
+          <Button
+            onClick={onMenu}
+            size="lg"
+            variant="outline"
+            className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+          >
+            <Home className="w-5 h-5 mr-2" />
+            메뉴로
+          </Button>
+        </div>
+
+        {(onWatchReplay || onExportReplay) && (
+          <div className="flex justify-center gap-3">
+            {onWatchReplay && (
+              <Button
+                onClick={onWatchReplay}
+                variant="outline"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <Film className="w-4 h-4 mr-1" />
+                리플레이 보기
+              </Button>
+            )}
+            {onExportReplay && (
+              <Button
+                onClick={onExportReplay}
+                variant="outline"
+                className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                리플레이 저장
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { Shuffle, Square, Volume2 } from "lucide-react"
+import { ClearLampBadge } from "@/components/play-history"
+import { Button } from "@/components/ui/button"
+import { getChartId } from "@/lib/chart"
+import { DIFFICULTY_SETTINGS, KEY_MODES, type Difficulty, type KeyMode } from "@/lib/game-config"
+import { getRandomSongId } from "@/lib/note-generator"
+import type { PersonalBest } from "@/lib/score-storage"
+import type { SongEntry } from "@/lib/song-library"
+import { cn } from "@/lib/utils"
+
+interface SongSelectProps {
+  songs: SongEntry[]
+  selectedSongId: string | null // null이면 랜덤
+  keyMode: KeyMode
+  difficulty: Difficulty
+  seed: number // 랜덤 채보 시드
+  previewSongId: string | null
+  bests: Map<string, PersonalBest> // 채보 ID별 개인 최고 기록
+  onSelectRandom: () => void
+  onSelectChart: (song: SongEntry, keyMode: KeyMode, difficulty: Difficulty) => void
+  onTogglePreview: (song: SongEntry) => void
+}
+
+// ms → m:ss
+const formatLength = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`
+}
+
+// 개인 최고 기록 한 줄 요약
+function BestRecord({ best }: { best?: PersonalBest }) {
+  if (!best) return <div className="text-xs text-gray-500">기록 없음</div>
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-300">
+      <ClearLampBadge lamp={best.lamp} />
+      최고 {best.score.toLocaleString()} · {best.accuracy.toFixed(2)}% · {best.plays}회
+    </div>
+  )
+}
+
+const KEY_MODE_LIST = Object.keys(KEY_MODES).map(Number) as KeyMode[]
+const DIFFICULTY_LIST = Object.keys(DIFFICULTY_SETTINGS) as Difficulty[]
+
+export function SongSelect({
+  songs,
+  selectedSongId,
+  keyMode,
+  difficulty,
+  seed,
+  previewSongId,
+  bests,
+  onSelectRandom,
+  onSelectChart,
+  onTogglePreview,
+}: SongSelectProps) {
+  return (
+    <div className="space-y-2 text-left max-h-[360px] overflow-y-auto pr-1">
+      {/* 랜덤 생성 */}
+      <button
+        type="button"
+        onClick={onSelectRandom}
+        className={cn(
+          "w-full flex items-center gap-3 rounded-lg border p-3 transition-colors",
+          selectedSongId === null ? "border-purple-500 bg-purple-500/10" : "border-gray-700 bg-gray-800 hover:bg-gray-700",
+        )}
+      >
+        <Shuffle className="w-5 h-5 text-purple-400" />
+        <div>
+          <div className="font-bold text-white">Random #{seed}</div>
+          <div className="text-xs text-gray-400">
+            선택한 키 모드와 난이도로 노트를 생성합니다 (같은 시드는 항상 같은 채보)
+          </div>
+          {selectedSongId === null && (
+            <BestRecord best={bests.get(getChartId(getRandomSongId(seed), keyMode, difficulty))} />
+          )}
+        </div>
+      </button>
+
+      {songs.map((song) => (
+        <div
+          key={song.id}
+          className={cn(
+            "rounded-lg border p-3 space-y-2",
+            selectedSongId === song.id ? "border-purple-500 bg-purple-500/10" : "border-gray-700 bg-gray-800",
+          )}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="font-bold text-white">{song.title}</div>
+              <div className="text-sm text-gray-300">{song.artist}</div>
+              <div className="text-xs text-gray-400">
+                BPM {song.bpm} · {formatLength(song.length)}
+              </div>
+            </div>
+            {song.audio && (
+              <Button
+                onClick={() => onTogglePreview(song)}
+                variant="outline"
+                size="sm"
+                className="bg-gray-900 border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                {previewSongId === song.id ? (
+                  <>
+                    <Square className="w-4 h-4 mr-1" />
+                    정지
+                  </>
+                ) : (
+                  <>
+                    <Volume2 className="w-4 h-4 mr-1" />
+                    미리듣기
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+
+          {/* 키 모드별 난이도 */}
+          {KEY_MODE_LIST.filter((mode) => song.charts.some((chart) => chart.keyMode === mode)).map((mode) => (
+            <div key={mode} className="flex items-center gap-2 text-sm">
+              <span className="w-10 text-gray-400">{mode}키</span>
+              {DIFFICULTY_LIST.filter((diff) =>
+                song.charts.some((chart) => chart.keyMode === mode && chart.difficulty === diff),
+              ).map((diff) => {
+                const selected = selectedSongId === song.id && keyMode === mode && difficulty === diff
+                const best = bests.get(getChartId(song.id, mode, diff))
+                return (
+                  <button
+                    key={diff}
+                    type="button"
+                    onClick={() => onSelectChart(song, mode, diff)}
+                    className={cn(
+                      "flex items-center gap-1 rounded-md border px-2 py-0.5 font-bold transition-colors",
+                      DIFFICULTY_SETTINGS[diff].color,
+                      selected ? "border-white bg-gray-700" : "border-gray-600 hover:bg-gray-700",
+                    )}
+                  >
+                    {DIFFICULTY_SETTINGS[diff].name}
+                    {best && <ClearLampBadge lamp={best.lamp} short />}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+
+          {selectedSongId === song.id && <BestRecord best={bests.get(getChartId(song.id, keyMode, difficulty))} />}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { Volume2, VolumeX } from "lucide-react"
+import type { AudioBus, AudioVolumes } from "@/lib/audio-engine"
+
+interface VolumeSettingsProps {
+  volumes: AudioVolumes
+  onChange: (volumes: AudioVolumes) => void
+}
+
+const VOLUME_LABELS: Record<AudioBus, string> = {
+  music: "음악",
+  hit: "타격음",
+  ui: "효과음",
+}
+
+// 채널별 음량 슬라이더 (음악 / 타격음과 키음 / 메트로놈 등 효과음)
+export function VolumeSettings({ volumes, onChange }: VolumeSettingsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+      {(Object.keys(VOLUME_LABELS) as AudioBus[]).map((bus) => (
+        <label key={bus} className="flex items-center gap-2 text-sm text-gray-300">
+          {volumes[bus] === 0 ? (
+            <VolumeX className="w-4 h-4 text-gray-500" />
+          ) : (
+            <Volume2 className="w-4 h-4 text-gray-400" />
+          )}
+          <span className="w-12 text-left">{VOLUME_LABELS[bus]}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(volumes[bus] * 100)}
+            onChange={(event) => onChange({ ...volumes, [bus]: Number(event.target.value) / 100 })}
+            className="w-24 accent-purple-500"
+          />
+          <span className="w-8 text-right text-xs text-gray-400">{Math.round(volumes[bus] * 100)}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+// 분석용 샘플레이트 (모노로 다운믹스하고 다시 샘플링)
+const ANALYSIS_SAMPLE_RATE = 22050
+const FRAME_SIZE = 1024
+const HOP_SIZE = 512
+const FRAME_DURATION = (HOP_SIZE / ANALYSIS_SAMPLE_RATE) * 1000 // ms
+
+// 템포 탐색 범위
+const MIN_BPM = 70
+const MAX_BPM = 180
+const PREFERRED_BPM = 120
+
+// 검출된 음의 시작점
+export interface Onset {
+  time: number // ms
+  strength: number // 0~1
+}
+
+export interface AudioAnalysis {
+  duration: number // ms
+  bpm: number
+  offset: number // 첫 박 위치 (ms, 0 이상 한 박 미만)
+  onsets: Onset[]
+}
+
+// 디코딩된 음원을 분석용 모노 신호로 변환 (OfflineAudioContext로 다운믹스와 리샘플링)
+async function renderMono(buffer: AudioBuffer): Promise<Float32Array> {
+  const length = Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE)
+  const context = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE)
+  const source = context.createBufferSource()
+  source.buffer = buffer
+  source.connect(context.destination)
+  source.start()
+  const rendered = await context.startRendering()
+  return rendered.getChannelData(0)
+}
+
+// 제자리 radix-2 FFT (real, imag 길이는 2의 거듭제곱)
+function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const tempReal = real[i]
+      real[i] = real[j]
+      real[j] = tempReal
+      const tempImag = imag[i]
+      imag[i] = imag[j]
+      imag[j] = tempImag
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tr = real[b] * cos - imag[b] * sin
+        const ti = real[b] * sin + imag[b] * cos
+        real[b] = real[a] - tr
+        imag[b] = imag[a] - ti
+        real[a] += tr
+        imag[a] += ti
+      }
+    }
+  }
+}
+
+// 프레임별 스펙트럼 플럭스 (로그 크기가 커진 양의 합, 0~1로 정규화)
+function computeOnsetEnvelope(samples: Float32Array): Float32Array {
+  const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1)
+  const envelope = new Float32Array(frameCount)
+  const window = new Float32Array(FRAME_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE))
+  const real = new Float32Array(FRAME_SIZE)
+  const imag = new Float32Array(FRAME_SIZE)
+  let previous = new Float32Array(FRAME_SIZE / 2)
+  let max = 0
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i]
+      imag[i] = 0
+    }
+    fft(real, imag)
+
+    const magnitude = new Float32Array(FRAME_SIZE / 2)
+    let flux = 0
+    for (let bin = 0; bin < FRAME_SIZE / 2; bin++) {
+      magnitude[bin] = Math.log1p(100 * Math.hypot(real[bin], imag[bin]))
+      flux += Math.max(0, magnitude[bin] - previous[bin])
+    }
+    previous = magnitude
+    envelope[frame] = frame === 0 ? 0 : flux
+    max = Math.max(max, envelope[frame])
+  }
+
+  if (max > 0) {
+    for (let i = 0; i < frameCount; i++) envelope[i] /= max
+  }
+  return envelope
+}
+
+// 프레임 번호 → 곡 시간 (프레임 중심)
+const frameToTime = (frame: number) => ((frame * HOP_SIZE + FRAME_SIZE / 2) / ANALYSIS_SAMPLE_RATE) * 1000
+
+// 소수 프레임 위치의 포락선 값 (선형 보간)
+const sampleEnvelope = (envelope: Float32Array, position: number) => {
+  const index = Math.floor(position)
+  if (index < 0 || index >= envelope.length - 1) return 0
+  const fraction = position - index
+  return envelope[index] * (1 - fraction) + envelope[index + 1] * fraction
+}
+
+// 국소 최대값이면서 주변 평균보다 충분히 큰 프레임을 시작점으로 선택
+function pickOnsets(envelope: Float32Array): Onset[] {
+  const peakRadius = 3
+  const averageRadius = 16
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / Math.max(1, envelope.length)
+  const onsets: Onset[] = []
+
+  for (let frame = 1; frame < envelope.length - 1; frame++) {
+    const value = envelope[frame]
+    let isPeak = true
+    for (let i = Math.max(0, frame - peakRadius); i <= Math.min(envelope.length - 1, frame + peakRadius); i++) {
+      if (envelope[i] > value) {
+        isPeak = false
+        break
+      }
+    }
+    if (!isPeak) continue
+
+    const from = Math.max(0, frame - averageRadius)
+    const to = Math.min(envelope.length - 1, frame + averageRadius)
+    let localSum = 0
+    for (let i = from; i <= to; i++) localSum += envelope[i]
+    const localMean = localSum / (to - from + 1)
+
+    if (value > localMean + mean * 0.5) {
+      onsets.push({ time: frameToTime(frame), strength: value })
+    }
+  }
+  return onsets
+}
+
+// 자기상관으로 대략의 템포를 찾고, 박 위치 합이 가장 큰 BPM과 위상으로 다듬는다
+function estimateTempo(envelope: Float32Array): { bpm: number; offset: number } {
+  const framesPerMinute = 60000 / FRAME_DURATION
+  // 평균을 뺀 포락선의 자기상관 (강박끼리 겹치는 간격일수록 크다)
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / Math.max(1, envelope.length)
+  const centered = envelope.map((value) => value - mean)
+  const autocorrelation = (lag: number) => {
+    let sum = 0
+    for (let i = 0; i + lag < centered.length; i++) sum += centered[i] * centered[i + lag]
+    return sum
+  }
+
+  let bestLag = 0
+  let bestScore = -Infinity
+  for (let lag = Math.floor(framesPerMinute / MAX_BPM); lag <= Math.ceil(framesPerMinute / MIN_BPM); lag++) {
+    // 반 박 간격도 맞아야 박으로 본다 (8분음표 간격의 3배 같은 엇박 주기를 배제)
+    let score = autocorrelation(lag) + 0.5 * autocorrelation(Math.round(lag / 2))
+    // 사람이 느끼는 템포(120 BPM 부근)를 약간 선호
+    const octaves = Math.log2(framesPerMinute / lag / PREFERRED_BPM)
+    score *= Math.exp(-0.5 * octaves * octaves)
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+  if (bestLag === 0) return { bpm: PREFERRED_BPM, offset: 0 }
+
+  // 박 위치의 포락선 합 (BPM과 첫 박 위치 후보 평가)
+  const combScore = (bpm: number, offset: number) => {
+    const beatFrames = 60000 / bpm / FRAME_DURATION
+    const startFrame = (offset - frameToTime(0)) / FRAME_DURATION
+    let score = 0
+    for (let position = startFrame; position < envelope.length; position += beatFrames) {
+      score += sampleEnvelope(envelope, position)
+    }
+    return score
+  }
+
+  const coarseBpm = framesPerMinute / bestLag
+  let best = { bpm: coarseBpm, offset: 0, score: -Infinity }
+  for (let bpm = Math.max(MIN_BPM, coarseBpm - 3); bpm <= Math.min(MAX_BPM, coarseBpm + 3); bpm += 0.05) {
+    const beatLength = 60000 / bpm
+    for (let offset = 0; offset < beatLength; offset += FRAME_DURATION / 2) {
+      const score = combScore(bpm, offset)
+      if (score > best.score) best = { bpm, offset, score }
+    }
+  }
+
+  // 정수에 가까운 BPM은 정수로 (대부분의 곡은 정수 BPM)
+  const rounded = Math.round(best.bpm)
+  const bpm = Math.abs(rounded - best.bpm) < 0.15 ? rounded : Math.round(best.bpm * 100) / 100
+  const beatLength = 60000 / bpm
+  let offset = best.offset
+  let offsetScore = -Infinity
+  for (let candidate = best.offset - FRAME_DURATION; candidate <= best.offset + FRAME_DURATION; candidate += 1) {
+    const score = combScore(bpm, candidate)
+    if (score > offsetScore) {
+      offsetScore = score
+      offset = candidate
+    }
+  }
+
+  return { bpm, offset: Math.round(((offset % beatLength) + beatLength) % beatLength) }
+}
+
+// 음원 분석 (음의 시작점 검출과 템포, 박 위치 추정)
+export async function analyzeAudio(buffer: AudioBuffer): Promise<AudioAnalysis> {
+  const samples = await renderMono(buffer)
+  const envelope = computeOnsetEnvelope(samples)
+  const { bpm, offset } = estimateTempo(envelope)
+  return { duration: buffer.duration * 1000, bpm, offset, onsets: pickOnsets(envelope) }
+}
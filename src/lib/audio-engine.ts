@@ -0,0 +1,285 @@
+import { timeStretch } from "@/lib/time-stretch"
+
+export type AudioSource = string | ArrayBuffer | Blob
+
+// 출력 채널 (채널별로 음량을 따로 조절)
+export type AudioBus = "music" | "hit" | "ui"
+
+export type AudioVolumes = Record<AudioBus, number>
+
+// Web Audio 기반 음악 재생 엔진
+// 노트 타이밍은 모두 getSongTime()이 반환하는 곡 시간(ms)을 기준으로 한다
+// 재생 속도를 바꾸면 곡 시간도 그 속도로 흐른다 (실제 시간 1초에 곡 시간 rate초)
+export class AudioEngine {
+  private context: AudioContext | null = null
+  private buses: Record<AudioBus, GainNode> | null = null
+  private volumes: AudioVolumes = { music: 1, hit: 1, ui: 1 }
+  private buffer: AudioBuffer | null = null
+  private loadedSource: AudioSource | null = null
+  private source: AudioBufferSourceNode | null = null
+  // 예약된 효과음 (정지 시 함께 취소)
+  private scheduledNodes = new Set<AudioScheduledSourceNode>()
+  // 곡 시간 0ms에 해당하는 AudioContext 시간 (초)
+  private songStartContextTime = 0
+  private running = false
+  private rate = 1
+  // 재생 속도에 맞춰 음 높이를 유지한 채 늘인 구간 음원 (start: 구간 시작 곡 시간 ms)
+  private stretched: { buffer: AudioBuffer; start: number } | null = null
+
+  // AudioContext는 사용자 입력 이후에 만들어야 하므로 지연 생성
+  getContext(): AudioContext {
+    if (!this.context) {
+      const context = new AudioContext({ latencyHint: "interactive" })
+      const createBus = (bus: AudioBus) => {
+        const gain = context.createGain()
+        gain.gain.value = this.volumes[bus]
+        gain.connect(context.destination)
+        return gain
+      }
+      this.context = context
+      this.buses = { music: createBus("music"), hit: createBus("hit"), ui: createBus("ui") }
+    }
+    return this.context
+  }
+
+  // 채널의 출력 노드 (컨텍스트가 없으면 만든다)
+  getBus(bus: AudioBus): AudioNode {
+    const context = this.getContext()
+    return this.buses?.[bus] ?? context.destination
+  }
+
+  get isLoaded() {
+    return this.buffer !== null
+  }
+
+  get audioBuffer() {
+    return this.buffer
+  }
+
+  // 곡 길이 (ms), 음원이 없으면 0
+  get duration() {
+    return this.buffer ? this.buffer.duration * 1000 : 0
+  }
+
+  get playbackRate() {
+    return this.rate
+  }
+
+  // 음원 로드 및 디코딩 (같은 소스는 다시 디코딩하지 않음)
+  async load(source: AudioSource): Promise<AudioBuffer> {
+    if (this.buffer && this.loadedSource === source) return this.buffer
+
+    this.buffer = await this.decode(source)
+    this.loadedSource = source
+    this.stretched = null
+    this.rate = 1
+    return this.buffer
+  }
+
+  // 재생 속도 (다음 start부터 적용)
+  // 1이 아니면 음원의 range 구간만 음 높이를 유지한 채 늘여 두며, 구간 밖은 소리 없이 곡 시간만 흐른다
+  setPlaybackRate(rate: number, range?: { start: number; end: number }) {
+    this.rate = rate
+    this.stretched = null
+    if (rate === 1 || !this.buffer) return
+    const start = Math.max(0, range?.start ?? 0)
+    const end = range?.end ?? this.duration
+    this.stretched = { buffer: timeStretch(this.getContext(), this.buffer, rate, start, end), start }
+  }
+
+  // 음원 디코딩만 (키음 등 곡 음원이 아닌 소리)
+  async decode(source: AudioSource): Promise<AudioBuffer> {
+    const context = this.getContext()
+    let data: ArrayBuffer
+    if (typeof source === "string") {
+      const response = await fetch(source)
+      if (!response.ok) {
+        throw new Error(`음원을 불러올 수 없습니다: ${source} (${response.status})`)
+      }
+      data = await response.arrayBuffer()
+    } else if (source instanceof Blob) {
+      data = await source.arrayBuffer()
+    } else {
+      // decodeAudioData는 버퍼를 detach하므로 복사본을 넘긴다
+      data = source.slice(0)
+    }
+    return context.decodeAudioData(data)
+  }
+
+  unload() {
+    this.stop()
+    this.buffer = null
+    this.loadedSource = null
+    this.stretched = null
+    this.rate = 1
+  }
+
+  // 출력 지연을 반영한 현재 곡 시간 (ms)
+  // AudioContext가 suspend 되어 있으면 currentTime도 멈추므로 일시정지 중에는 값이 고정된다
+  getSongTime(): number {
+    if (!this.context) return 0
+    const latency = this.context.outputLatency || this.context.baseLatency || 0
+    return (this.context.currentTime - latency - this.songStartContextTime) * 1000 * this.rate
+  }
+
+  // performance.now() 기준 타임스탬프(예: KeyboardEvent.timeStamp)를 곡 시간으로 변환
+  getSongTimeAt(timestamp: number): number {
+    const songTime = this.getSongTime()
+    if (this.context?.state !== "running") return songTime
+    return songTime - Math.max(0, performance.now() - timestamp) * this.rate
+  }
+
+  // 곡 시간 fromMs 위치부터 재생 시작 (음수면 그만큼 대기 후 재생, toMs를 주면 그 곡 시간에 음악만 멈춘다)
+  async start(fromMs = 0, toMs?: number) {
+    this.stop()
+
+    const context = this.getContext()
+    if (context.state === "suspended") {
+      await context.resume()
+    }
+
+    const now = context.currentTime
+    this.songStartContextTime = now - this.toSeconds(fromMs)
+    this.running = true
+
+    if (!this.buffer || !this.buses) return
+
+    // 재생 속도가 1이 아니면 늘인 구간 음원 (음원의 0초가 곡 시간 start ms)
+    const { buffer, start } = this.stretched ?? { buffer: this.buffer, start: 0 }
+    const offset = Math.max(0, this.toSeconds(fromMs - start))
+    const begin = Math.max(fromMs, start)
+    if (offset >= buffer.duration || (toMs !== undefined && toMs <= begin)) return
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(this.buses.music)
+    source.start(
+      now + Math.max(0, this.toSeconds(start - fromMs)),
+      offset,
+      toMs !== undefined ? this.toSeconds(toMs - begin) : undefined,
+    )
+    this.source = source
+  }
+
+  // 곡 시간 간격(ms)이 재생되는 실제 시간 (초)
+  private toSeconds(songMs: number) {
+    return songMs / 1000 / this.rate
+  }
+
+  // 곡 시간 기준으로 짧은 클릭음 예약 (메트로놈 등)
+  scheduleClick(songTimeMs: number, frequency = 1000, duration = 0.05, bus: AudioBus = "ui") {
+    const context = this.getContext()
+
+    const when = this.songStartContextTime + this.toSeconds(songTimeMs)
+    if (when < context.currentTime) return
+
+    const oscillator = context.createOscillator()
+    const envelope = context.createGain()
+    oscillator.frequency.value = frequency
+    envelope.gain.setValueAtTime(0.6, when)
+    envelope.gain.exponentialRampToValueAtTime(0.001, when + duration)
+    oscillator.connect(envelope)
+    envelope.connect(this.getBus(bus))
+    oscillator.start(when)
+    oscillator.stop(when + duration)
+    oscillator.onended = () => {
+      envelope.disconnect()
+      this.scheduledNodes.delete(oscillator)
+    }
+    this.scheduledNodes.add(oscillator)
+  }
+
+  // 곡 시간에 맞춰 소리 예약 (채보 배경음, 이미 지난 시각이면 무시)
+  scheduleBuffer(buffer: AudioBuffer, songTimeMs: number, bus: AudioBus) {
+    const context = this.getContext()
+
+    const when = this.songStartContextTime + this.toSeconds(songTimeMs)
+    if (when < context.currentTime) return
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(this.getBus(bus))
+    source.start(when)
+    source.onended = () => {
+      source.disconnect()
+      this.scheduledNodes.delete(source)
+    }
+    this.scheduledNodes.add(source)
+  }
+
+  // 효과음 즉시 재생 (입력 반응용, 곡 시간과 무관하게 바로 시작)
+  playBuffer(buffer: AudioBuffer, bus: AudioBus, gain = 1) {
+    const context = this.getContext()
+    if (context.state !== "running") return
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    let output: AudioNode = source
+    if (gain !== 1) {
+      const gainNode = context.createGain()
+      gainNode.gain.value = gain
+      source.connect(gainNode)
+      output = gainNode
+    }
+    output.connect(this.getBus(bus))
+    source.onended = () => output.disconnect()
+    source.start()
+  }
+
+  // 일시정지: 컨텍스트 자체를 suspend 하여 음악과 곡 시간을 함께 멈춘다
+  async pause() {
+    if (this.context && this.context.state === "running") {
+      await this.context.suspend()
+    }
+  }
+
+  async resume() {
+    if (this.context && this.running && this.context.state === "suspended") {
+      await this.context.resume()
+    }
+  }
+
+  stop() {
+    this.scheduledNodes.forEach((node) => {
+      try {
+        node.stop()
+      } catch {
+        // 이미 정지된 노드
+      }
+    })
+    this.scheduledNodes.clear()
+
+    if (this.source) {
+      try {
+        this.source.stop()
+      } catch {
+        // 이미 정지된 소스
+      }
+      this.source.disconnect()
+      this.source = null
+    }
+    this.running = false
+  }
+
+  // 채널별 음량 (0~1, 컨텍스트를 만들기 전에 설정해도 적용된다)
+  setVolumes(volumes: AudioVolumes) {
+    this.volumes = volumes
+    if (this.buses) {
+      this.buses.music.gain.value = volumes.music
+      this.buses.hit.gain.value = volumes.hit
+      this.buses.ui.gain.value = volumes.ui
+    }
+  }
+
+  async dispose() {
+    this.stop()
+    this.buffer = null
+    this.loadedSource = null
+    if (this.context) {
+      const context = this.context
+      this.context = null
+      this.buses = null
+      await context.close()
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict"
+import { readFileSync, readdirSync } from "node:fs"
+import path from "node:path"
+import { describe, test } from "node:test"
+import { checkAutoPlay, planAutoPlay } from "@/lib/auto-play"
+import { chartToNotes, parseChartJson } from "@/lib/chart"
+import { RULESETS, getRuleset, type Note, type RulesetId } from "@/lib/game-config"
+import { generateNotes } from "@/lib/note-generator"
+import { MAX_SCORE } from "@/lib/stats"
+
+const SONGS_PATH = path.join(process.cwd(), "public", "songs")
+
+// 라이브러리에 들어 있는 곡의 채보와 키 모드, 난이도별 랜덤 채보
+const SAMPLE_CHARTS: { name: string; notes: Note[] }[] = [
+  ...readdirSync(SONGS_PATH, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((entry) =>
+      readdirSync(path.join(SONGS_PATH, entry.name))
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => ({
+          name: `${entry.name}/${file}`,
+          notes: chartToNotes(parseChartJson(readFileSync(path.join(SONGS_PATH, entry.name, file), "utf8"))),
+        })),
+    ),
+  ...([4, 6, 8] as const).flatMap((keyMode) =>
+    (["easy", "normal", "hard"] as const).map((difficulty) => ({
+      name: `Random ${keyMode}키 ${difficulty}`,
+      notes: generateNotes({ keyMode, difficulty, seed: 1234 }),
+    })),
+  ),
+]
+
+describe("자동 플레이", () => {
+  test("라이브러리 채보가 있다", () => {
+    assert.ok(SAMPLE_CHARTS.some(({ name }) => !name.startsWith("Random")))
+  })
+
+  for (const rulesetId of Object.keys(RULESETS) as RulesetId[]) {
+    for (const { name, notes } of SAMPLE_CHARTS) {
+      test(`${RULESETS[rulesetId].name} 판정에서 모두 최고 판정: ${name}`, () => {
+        const { stats, expected, passed } = checkAutoPlay(notes, rulesetId)
+        assert.ok(passed, `${JSON.stringify(stats)} != ${JSON.stringify(expected)}`)
+
+        const best = getRuleset(rulesetId).tiers[0].judgment
+        const judgments = Object.entries(stats.judgments).filter(([, count]) => count > 0)
+        assert.deepEqual(judgments, [[best, stats.totalJudgments]])
+        if (getRuleset(rulesetId).scoring === "accuracy") assert.equal(stats.score, MAX_SCORE)
+      })
+    }
+  }
+
+  test("흔들림은 시드가 같으면 같고, 같은 레인의 누름과 뗌이 번갈아 나온다", () => {
+    const notes = generateNotes({ keyMode: 8, difficulty: "hard", seed: 7 })
+    const inputs = planAutoPlay(notes, { jitter: 20, seed: 3 })
+    assert.deepEqual(inputs, planAutoPlay(notes, { jitter: 20, seed: 3 }))
+    assert.equal(inputs.length, notes.length * 2)
+
+    const pressedLanes = new Set<number>()
+    inputs.forEach(([, lane, pressed]) => {
+      assert.equal(pressedLanes.has(lane), pressed === 0)
+      if (pressed) pressedLanes.add(lane)
+      else pressedLanes.delete(lane)
+    })
+  })
+})
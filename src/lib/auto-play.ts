@@ -0,0 +1,114 @@
+import { HOLD_TICK_INTERVAL, getRuleset, type GameStats, type Note, type RulesetId } from "@/lib/game-config"
+import { GameEngine } from "@/lib/game-engine"
+import { DEFAULT_GAUGE } from "@/lib/gauge"
+import { createRandom } from "@/lib/note-generator"
+import { isSameStats, type ReplayInput } from "@/lib/replay"
+import { applyJudgment, createInitialStats } from "@/lib/stats"
+
+const TAP_DURATION = 40 // 단타를 누르고 있는 시간 (ms, 같은 레인의 다음 노트가 가까우면 그 절반)
+const MIN_INPUT_GAP = 1 // 같은 레인에서 떼고 다시 누르기까지 최소 간격 (ms)
+
+export interface AutoPlayOptions {
+  jitter: number // 입력 시각 흔들림의 표준편차 (ms, 0이면 노트 시각 그대로)
+  seed: number // 흔들림 난수 시드 (같은 시드면 같은 입력)
+}
+
+export const EXACT_AUTO_PLAY: AutoPlayOptions = { jitter: 0, seed: 0 }
+
+// 노트를 처리하는 누름/뗌 입력 (시각 순, 같은 시각이면 떼기 먼저)
+// 단타는 노트 시각에 눌렀다 잠시 뒤 떼고, 롱노트는 끝 시각에 뗀다 (흔들림이 있으면 시각마다 정규분포로 어긋난다)
+export function planAutoPlay(notes: Note[], { jitter, seed }: AutoPlayOptions = EXACT_AUTO_PLAY): ReplayInput[] {
+  const random = createRandom(seed)
+  const offset = () =>
+    jitter > 0 ? jitter * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random()) : 0
+
+  const sorted = [...notes].sort((a, b) => a.startTime - b.startTime || a.lane - b.lane)
+  // 같은 레인의 다음 노트 시작 시각
+  const nextStart = new Array<number>(sorted.length)
+  const laneNext = new Map<number, number>()
+  for (let index = sorted.length - 1; index >= 0; index--) {
+    nextStart[index] = laneNext.get(sorted[index].lane) ?? Infinity
+    laneNext.set(sorted[index].lane, sorted[index].startTime)
+  }
+
+  const inputs: ReplayInput[] = []
+  const laneReleasedAt = new Map<number, number>()
+  sorted.forEach((note, index) => {
+    const press = Math.max(note.startTime + offset(), (laneReleasedAt.get(note.lane) ?? -Infinity) + MIN_INPUT_GAP)
+    const release =
+      note.endTime !== undefined
+        ? Math.max(press + MIN_INPUT_GAP, note.endTime + offset())
+        : press + Math.max(MIN_INPUT_GAP, Math.min(TAP_DURATION, (nextStart[index] - note.startTime) / 2))
+    inputs.push([press, note.lane, 1], [release, note.lane, 0])
+    laneReleasedAt.set(note.lane, release)
+  })
+  return inputs.sort((a, b) => a[0] - b[0] || a[2] - b[2])
+}
+
+// 계획한 입력을 곡 시간에 맞춰 하나씩 내어 주는 자동 플레이어
+// 입력은 직접 누른 것과 같은 경로(레인 누름/뗌)로 넣는다
+export class AutoPlayer {
+  private inputs: ReplayInput[]
+  private index = 0
+
+  constructor(notes: Note[], options: AutoPlayOptions = EXACT_AUTO_PLAY) {
+    this.inputs = planAutoPlay(notes, options)
+  }
+
+  // time까지 도달했지만 아직 내어 주지 않은 입력
+  take(time: number): ReplayInput[] {
+    const start = this.index
+    while (this.index < this.inputs.length && this.inputs[this.index][0] <= time) this.index++
+    return this.inputs.slice(start, this.index)
+  }
+
+  // 처음 입력부터 다시 (같은 채보를 반복할 때)
+  rewind() {
+    this.index = 0
+  }
+}
+
+// 모든 판정이 가장 좋은 판정일 때의 결과
+// 판정 엔진과 따로 계산해 자동 플레이 결과와 비교한다 (같은 시각이면 홀드 틱을 먼저 센다)
+export function getPerfectStats(notes: Note[], rulesetId: RulesetId): GameStats {
+  const best = getRuleset(rulesetId).tiers[0].judgment
+  const events: { time: number; tick: boolean }[] = []
+  notes.forEach((note) => {
+    events.push({ time: note.startTime, tick: false })
+    if (note.endTime === undefined) return
+    const tickCount = Math.floor((note.endTime - note.startTime) / HOLD_TICK_INTERVAL)
+    for (let tick = 1; tick <= tickCount; tick++) {
+      events.push({ time: note.startTime + tick * HOLD_TICK_INTERVAL, tick: true })
+    }
+    events.push({ time: note.endTime, tick: false })
+  })
+  const totalJudgments = notes.reduce((sum, note) => sum + (note.endTime !== undefined ? 2 : 1), 0)
+  return events
+    .sort((a, b) => a.time - b.time || Number(b.tick) - Number(a.tick))
+    .reduce(
+      (stats, event) =>
+        event.tick
+          ? { ...stats, combo: stats.combo + 1, maxCombo: Math.max(stats.maxCombo, stats.combo + 1) }
+          : applyJudgment(stats, best),
+      createInitialStats(rulesetId, totalJudgments),
+    )
+}
+
+export interface AutoPlayCheck {
+  stats: GameStats // 자동 플레이 결과
+  expected: GameStats // 모든 판정이 가장 좋은 판정일 때의 결과
+  passed: boolean
+}
+
+// 채보를 흔들림 없는 자동 플레이로 판정 엔진에 끝까지 넣어 완벽한 결과가 나오는지 확인
+// (같은 레인에서 판정 범위 안에 겹친 노트처럼 정확히 쳐도 최고 판정을 받을 수 없는 채보를 찾는다)
+export function checkAutoPlay(notes: Note[], rulesetId: RulesetId): AutoPlayCheck {
+  const engine = new GameEngine(notes, rulesetId, { type: DEFAULT_GAUGE, noFail: true })
+  new AutoPlayer(engine.notes).take(Infinity).forEach(([time, lane, pressed]) => {
+    if (pressed) engine.press(lane, time)
+    else engine.release(lane, time)
+  })
+  engine.tick(Infinity)
+  const expected = getPerfectStats(engine.notes, rulesetId)
+  return { stats: engine.stats, expected, passed: isSameStats(engine.stats, expected) }
+}
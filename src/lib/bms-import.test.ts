@@ -0,0 +1,102 @@
+import assert from "node:assert/strict"
+import { readFileSync } from "node:fs"
+import path from "node:path"
+import { describe, test } from "node:test"
+import { parseBms } from "@/lib/bms-import"
+import { ChartParseError, chartToNotes } from "@/lib/chart"
+import { convertImportedChart } from "@/lib/chart-import"
+
+// 120 BPM에서 빈 0마디(2000ms) 뒤 1마디에 03 채널 변속(F0 = 240), 2마디에 정지(240 BPM의 한 박 = 250ms),
+// 3마디에 08 채널 변속(60). 3마디에는 #LNOBJ 롱노트(2번 건반)와 5x 채널 롱노트(3번 건반)가 있다
+const SAMPLE = readFileSync(path.join(process.cwd(), "src", "lib", "fixtures", "sample.bms"), "utf8")
+
+describe("parseBms", () => {
+  test("헤더와 키음, 배경음을 읽는다", () => {
+    const imported = parseBms(SAMPLE)
+    assert.equal(imported.title, "Fixture [TEST]")
+    assert.equal(imported.artist, "Tester")
+    assert.equal(imported.difficulty, "normal")
+    assert.equal(imported.bpm, 120)
+    assert.deepEqual(imported.sounds, { "01": "kick.wav", "02": "snare.wav" })
+    assert.deepEqual(imported.bgm, [{ time: 2000, sound: "02" }])
+  })
+
+  test("변속과 정지를 반영한 노트 시각과 열, 롱노트 끝 시각", () => {
+    const imported = parseBms(SAMPLE)
+    assert.equal(imported.columns, 5)
+    assert.equal(imported.padSide, "left")
+    assert.deepEqual(
+      imported.notes.map(({ time, endTime, column }) => ({ time, endTime, column })),
+      [
+        { time: 2000, endTime: undefined, column: 0 },
+        // 변속 뒤 두 박은 240 BPM으로 500ms
+        { time: 2500, endTime: undefined, column: 1 },
+        { time: 2500, endTime: undefined, column: 2 },
+        // 정지가 있는 박자의 노트는 정지 전에, 그 뒤 노트는 정지만큼 늦게
+        { time: 3000, endTime: undefined, column: 3 },
+        { time: 3750, endTime: undefined, column: 4 },
+        { time: 4250, endTime: 6250, column: 1 },
+        { time: 4250, endTime: 6250, column: 2 },
+      ],
+    )
+    assert.deepEqual(imported.timing, [
+      { time: 2000, bpm: 240 },
+      { time: 3000, stop: 250 },
+      { time: 4250, bpm: 60 },
+    ])
+  })
+
+  test("채보로 변환하면 박자 위치의 타이밍과 빈 레인이 생기고 노트 시각은 그대로", () => {
+    const imported = parseBms(SAMPLE)
+    const { chart, columns, droppedNotes } = convertImportedChart(imported)
+    assert.equal(columns, 5)
+    assert.equal(droppedNotes, 0)
+    assert.equal(chart.meta.keyMode, 6)
+    assert.deepEqual(chart.timing, [
+      { beat: 4, bpm: 240 },
+      { beat: 8, stop: 250 },
+      { beat: 12, bpm: 60 },
+    ])
+    assert.deepEqual(
+      chart.notes.map(({ beat, lane, length }) => ({ beat, lane, length })),
+      [
+        { beat: 4, lane: 1, length: undefined },
+        { beat: 6, lane: 2, length: undefined },
+        { beat: 6, lane: 3, length: undefined },
+        { beat: 8, lane: 4, length: undefined },
+        { beat: 10, lane: 5, length: undefined },
+        { beat: 12, lane: 2, length: 2 },
+        { beat: 12, lane: 3, length: 2 },
+      ],
+    )
+    assert.deepEqual(
+      chartToNotes(chart).map(({ startTime, endTime }) => [startTime, endTime]),
+      imported.notes
+        .map(({ time, endTime }) => [time, endTime])
+        .sort((a, b) => (a[0] ?? 0) - (b[0] ?? 0)),
+    )
+  })
+
+  test("#RANDOM은 1번 분기만 읽는다", () => {
+    const imported = parseBms(
+      ["#BPM 120", "#RANDOM 2", "#IF 1", "#00111:01", "#ELSE", "#00112:01", "#ENDIF", "#ENDRANDOM"].join("\n"),
+    )
+    assert.deepEqual(imported.notes.map(({ column }) => column), [0])
+  })
+
+  test("정의되지 않은 변속, 2P 채널, 잘못된 마디 길이는 거부한다", () => {
+    assert.throws(
+      () => parseBms(["#BPM 120", "#00111:01", "#00108:02"].join("\n")),
+      (error) => error instanceof ChartParseError && error.message === "3번째 줄: 정의되지 않은 #BPM02입니다",
+    )
+    assert.throws(() => parseBms("#00121:01"), /2P\(더블 플레이\)/)
+    assert.throws(
+      () => parseBms(["#BPM 120", "#00102:0"].join("\n")),
+      (error) => error instanceof ChartParseError && error.path === "2번째 줄",
+    )
+    assert.throws(
+      () => parseBms("#BPM -1\n#00111:01"),
+      (error) => error instanceof ChartParseError && error.path === "#BPM",
+    )
+  })
+})
@@ -0,0 +1,241 @@
+import { ChartParseError } from "@/lib/chart"
+import type { ImportedChart, ImportedNote, ImportedTimingPoint } from "@/lib/chart-import"
+import type { Difficulty } from "@/lib/game-config"
+
+const DEFAULT_BPM = 130
+
+// 1P 건반 채널 (스크래치 16, 1~5번 11~15, 6~7번 18~19, 17은 미사용)
+const SCRATCH_CHANNEL = 6
+const KEY_CHANNELS = [1, 2, 3, 4, 5, 8, 9]
+
+// #DIFFICULTY (1 BEGINNER ~ 5 INSANE)
+const DIFFICULTY_BY_LEVEL: Record<number, Difficulty> = { 1: "easy", 2: "normal", 3: "hard", 4: "hard", 5: "hard" }
+
+interface BmsObject {
+  measure: number
+  position: number // 마디 안 위치 (0~1)
+  channel: string
+  id: string // 두 자리 36진수 ID
+  line: number
+}
+
+interface TimingEvent {
+  beat: number
+  kind: "bpm" | "stop"
+  value: number // BPM, 또는 정지 길이 (1/48박 단위, #STOP 값 그대로)
+}
+
+// 같은 박자에서는 변속을 정지보다 먼저 적용
+const sortTimingEvents = (events: TimingEvent[]) =>
+  [...events].sort((a, b) => a.beat - b.beat || (a.kind === "bpm" ? -1 : 1))
+
+// 변속과 정지를 반영하여 박자 위치를 곡 시간(ms)으로 바꾸는 함수
+// (정지는 그 위치의 노트를 처리한 뒤에 시작된다)
+const createBeatToTime = (initialBpm: number, events: TimingEvent[]) => {
+  const sorted = sortTimingEvents(events)
+  return (beat: number) => {
+    let time = 0
+    let cursor = 0
+    let bpm = initialBpm
+    for (const event of sorted) {
+      if (event.beat > beat || (event.kind === "stop" && event.beat === beat)) break
+      time += ((event.beat - cursor) * 60000) / bpm
+      cursor = event.beat
+      if (event.kind === "bpm") bpm = event.value
+      else time += ((event.value / 48) * 60000) / bpm
+    }
+    return time + ((beat - cursor) * 60000) / bpm
+  }
+}
+
+// BMS(.bms/.bme/.bml) 싱글 플레이 채보 읽기
+// #RANDOM 분기는 언제나 1번이 나온 것으로 보고, 롱노트는 5x 채널(#LNTYPE 1)과 #LNOBJ를 지원한다
+export function parseBms(text: string): ImportedChart {
+  const headers = new Map<string, string>()
+  const wavs: Record<string, string> = {}
+  const bpms = new Map<string, number>()
+  const stops = new Map<string, number>()
+  const measureLengths = new Map<number, number>()
+  const objects: BmsObject[] = []
+  const conditions: boolean[] = [] // #IF 블록마다 적용 여부
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+    if (!line.startsWith("#")) return
+
+    const control = line.match(/^#(RANDOM|SETRANDOM|IF|ELSEIF|ELSE|ENDIF|ENDRANDOM)\b\s*(\d*)/i)
+    if (control) {
+      const [, command, value] = control
+      switch (command.toUpperCase()) {
+        case "IF":
+          conditions.push(Number(value) === 1)
+          break
+        case "ELSEIF":
+        case "ELSE":
+          // 1번 분기만 쓰므로 나머지 분기는 건너뛴다
+          if (conditions.length > 0) conditions[conditions.length - 1] = false
+          break
+        case "ENDIF":
+          conditions.pop()
+          break
+      }
+      return
+    }
+    if (conditions.includes(false)) return
+
+    const data = line.match(/^#(\d{3})([0-9A-Z]{2}):(.*)$/i)
+    if (data) {
+      const measure = Number(data[1])
+      const channel = data[2].toUpperCase()
+      const body = data[3].trim()
+      if (channel === "02") {
+        const length = Number(body)
+        if (!Number.isFinite(length) || length <= 0) {
+          throw new ChartParseError(`마디 길이가 올바르지 않습니다 (${body})`, `${lineNumber}번째 줄`)
+        }
+        measureLengths.set(measure, length)
+        return
+      }
+      const ids = body.replace(/\s/g, "").toUpperCase()
+      const count = Math.floor(ids.length / 2)
+      for (let i = 0; i < count; i++) {
+        const id = ids.slice(i * 2, i * 2 + 2)
+        if (id !== "00") objects.push({ measure, position: i / count, channel, id, line: lineNumber })
+      }
+      return
+    }
+
+    // ID가 붙는 정의 (#WAV01 kick.wav, #BPM01 180, #STOP01 96)
+    const definition = line.match(/^#(WAV|BPM|STOP)([0-9A-Z]{2})\s+(.+)$/i)
+    if (definition) {
+      const id = definition[2].toUpperCase()
+      const value = definition[3].trim()
+      const kind = definition[1].toUpperCase()
+      if (kind === "WAV") wavs[id] = value
+      else (kind === "BPM" ? bpms : stops).set(id, Number(value))
+      return
+    }
+
+    const header = line.match(/^#(\w+)\s+(.+)$/)
+    if (header) headers.set(header[1].toUpperCase(), header[2].trim())
+  })
+
+  if (objects.some(({ channel }) => /^[26][1-9]$/.test(channel))) {
+    throw new ChartParseError("2P(더블 플레이) 채보는 지원하지 않습니다")
+  }
+
+  const initialBpm = Number(headers.get("BPM") ?? DEFAULT_BPM)
+  if (!Number.isFinite(initialBpm) || initialBpm <= 0) {
+    throw new ChartParseError(`BPM이 올바르지 않습니다 (${headers.get("BPM")})`, "#BPM")
+  }
+
+  // 마디 시작 박자 (마디 길이 1 = 4박)
+  const lastMeasure = objects.reduce((max, object) => Math.max(max, object.measure), 0)
+  const measureStarts: number[] = [0]
+  for (let measure = 0; measure <= lastMeasure; measure++) {
+    measureStarts.push(measureStarts[measure] + 4 * (measureLengths.get(measure) ?? 1))
+  }
+  const getBeat = ({ measure, position }: BmsObject) =>
+    measureStarts[measure] + 4 * (measureLengths.get(measure) ?? 1) * position
+
+  // 변속(03: 16진수 BPM, 08: #BPMxx)과 정지(09: #STOPxx)
+  const timingEvents: TimingEvent[] = []
+  objects.forEach((object) => {
+    const beat = getBeat(object)
+    if (object.channel === "03") {
+      timingEvents.push({ beat, kind: "bpm", value: parseInt(object.id, 16) })
+    } else if (object.channel === "08" || object.channel === "09") {
+      const value = (object.channel === "08" ? bpms : stops).get(object.id)
+      if (value === undefined || !Number.isFinite(value)) {
+        const name = object.channel === "08" ? "#BPM" : "#STOP"
+        throw new ChartParseError(`정의되지 않은 ${name}${object.id}입니다`, `${object.line}번째 줄`)
+      }
+      timingEvents.push({ beat, kind: object.channel === "08" ? "bpm" : "stop", value })
+    }
+  })
+  const validEvents = sortTimingEvents(timingEvents.filter((event) => event.value > 0))
+  const beatToTime = createBeatToTime(initialBpm, validEvents)
+  // 정지 길이는 그 시점의 BPM 기준이므로 ms로 바꿔 둔다
+  let currentBpm = initialBpm
+  const timing = validEvents.map((event): ImportedTimingPoint => {
+    const time = beatToTime(event.beat)
+    if (event.kind === "bpm") {
+      currentBpm = event.value
+      return { time, bpm: event.value }
+    }
+    return { time, stop: ((event.value / 48) * 60000) / currentBpm }
+  })
+
+  // 건반 노트 (1x 단타, 5x 롱노트 시작/끝 쌍, #LNOBJ는 앞 노트를 롱노트로 끝낸다)
+  const lnObject = headers.get("LNOBJ")?.toUpperCase()
+  const keyNotes: { key: number; time: number; endTime?: number; id: string }[] = []
+  const lastNoteByKey = new Map<number, (typeof keyNotes)[number]>()
+  const openLongNotes = new Map<number, (typeof keyNotes)[number]>()
+  const sortedObjects = [...objects].sort((a, b) => getBeat(a) - getBeat(b))
+  sortedObjects.forEach((object) => {
+    const match = object.channel.match(/^([15])([1-9])$/)
+    if (!match) return
+    const key = Number(match[2])
+    if (key !== SCRATCH_CHANNEL && !KEY_CHANNELS.includes(key)) return
+    const time = beatToTime(getBeat(object))
+
+    if (match[1] === "5") {
+      const open = openLongNotes.get(key)
+      if (open) {
+        open.endTime = time
+        openLongNotes.delete(key)
+      } else {
+        const note = { key, time, id: object.id }
+        keyNotes.push(note)
+        openLongNotes.set(key, note)
+      }
+      return
+    }
+    if (object.id === lnObject) {
+      const previous = lastNoteByKey.get(key)
+      if (previous && previous.endTime === undefined) previous.endTime = time
+      return
+    }
+    const note = { key, time, id: object.id }
+    keyNotes.push(note)
+    lastNoteByKey.set(key, note)
+  })
+
+  // 쓰인 건반에 맞춰 레인 배치 (스크래치가 있으면 맨 왼쪽)
+  const usedKeys = new Set(keyNotes.map(({ key }) => key))
+  const hasScratch = usedKeys.has(SCRATCH_CHANNEL)
+  const keyCount = usedKeys.has(8) || usedKeys.has(9) ? 7 : usedKeys.has(5) ? 5 : 4
+  const laneKeys = [...(hasScratch ? [SCRATCH_CHANNEL] : []), ...KEY_CHANNELS.slice(0, keyCount)]
+
+  const notes = keyNotes.map(({ key, time, endTime, id }): ImportedNote => {
+    const note: ImportedNote = { time, column: laneKeys.indexOf(key) }
+    if (endTime !== undefined) note.endTime = endTime
+    if (id in wavs) note.sound = id
+    return note
+  })
+  const bgm = objects
+    .filter((object) => object.channel === "01" && object.id in wavs)
+    .map((object) => ({ time: beatToTime(getBeat(object)), sound: object.id }))
+
+  const level = Number(headers.get("DIFFICULTY"))
+  const playLevel = Number(headers.get("PLAYLEVEL"))
+  const difficulty: Difficulty =
+    DIFFICULTY_BY_LEVEL[level] ??
+    (Number.isFinite(playLevel) ? (playLevel <= 3 ? "easy" : playLevel <= 7 ? "normal" : "hard") : "normal")
+
+  const subtitle = headers.get("SUBTITLE")
+  return {
+    title: [headers.get("TITLE") || "제목 없음", subtitle].filter(Boolean).join(" "),
+    artist: headers.get("ARTIST") || "작곡가 미상",
+    difficulty,
+    bpm: initialBpm,
+    offset: 0,
+    columns: laneKeys.length,
+    padSide: hasScratch ? "right" : "left",
+    notes,
+    sounds: Object.keys(wavs).length > 0 ? wavs : undefined,
+    bgm,
+    timing,
+  }
+}
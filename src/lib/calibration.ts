@@ -0,0 +1,57 @@
+const STORAGE_KEY = "musicGame.calibration.v1"
+
+export interface CalibrationSettings {
+  audioOffset: number // 입력 지연 보정 (ms, 양수면 늦게 누르는 만큼 판정을 늦춘다)
+  visualOffset: number // 화면 지연 보정 (ms, 양수면 노트를 그만큼 앞당겨 그린다)
+}
+
+export const DEFAULT_CALIBRATION: CalibrationSettings = {
+  audioOffset: 0,
+  visualOffset: 0,
+}
+
+// 보정 가능한 범위 (ms)
+export const MAX_OFFSET = 300
+
+const clampOffset = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(-MAX_OFFSET, Math.min(MAX_OFFSET, value)) : 0
+
+export function loadCalibration(): CalibrationSettings {
+  if (typeof window === "undefined") return DEFAULT_CALIBRATION
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_CALIBRATION
+    const saved = JSON.parse(raw) as Partial<CalibrationSettings>
+    return { audioOffset: clampOffset(saved.audioOffset), visualOffset: clampOffset(saved.visualOffset) }
+  } catch {
+    return DEFAULT_CALIBRATION
+  }
+}
+
+export function saveCalibration(settings: CalibrationSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}
+
+// 메트로놈 박자에 맞춘 입력들의 평균 오차 (ms)
+// 가장 가까운 박자와의 차이를 구하고, 반 박자 이상 벗어난 입력과 양 끝 20%는 제외한다
+export function computeTapOffset(tapTimes: number[], beatTimes: number[]): number | null {
+  if (beatTimes.length < 2) return null
+  const halfInterval = (beatTimes[1] - beatTimes[0]) / 2
+
+  const diffs = tapTimes
+    .map((tap) =>
+      beatTimes.reduce((nearest, beat) => (Math.abs(tap - beat) < Math.abs(nearest) ? tap - beat : nearest), Infinity),
+    )
+    .filter((diff) => Math.abs(diff) < halfInterval)
+    .sort((a, b) => a - b)
+
+  if (diffs.length === 0) return null
+
+  const trim = Math.floor(diffs.length * 0.2)
+  const trimmed = diffs.length > 4 ? diffs.slice(trim, diffs.length - trim) : diffs
+  return Math.round(trimmed.reduce((sum, diff) => sum + diff, 0) / trimmed.length)
+}
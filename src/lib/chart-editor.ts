@@ -0,0 +1,89 @@
+import type { ChartNote } from "@/lib/chart"
+
+// 선택 가능한 박자 분할 (1/n 박)
+export const SNAP_DIVISIONS = [1, 2, 3, 4, 6, 8, 12, 16]
+
+// 부동소수점 오차를 줄이기 위해 박자 위치를 소수 6자리로 정리
+export function roundBeat(beat: number) {
+  return Math.round(beat * 1e6) / 1e6
+}
+
+// 가장 가까운 1/division 박으로 맞추기
+export function snapBeat(beat: number, division: number) {
+  return roundBeat(Math.round(beat * division) / division)
+}
+
+// 노트가 차지하는 박자 구간 [시작, 끝]
+const getNoteRange = (note: ChartNote) => [note.beat, note.beat + (note.length ?? 0)]
+
+// 레인과 박자 위치에 있는 노트 번호 (롱노트는 몸통 포함, 없으면 -1)
+export function findNoteAt(notes: ChartNote[], lane: number, beat: number, tolerance: number) {
+  return notes.findIndex((note) => {
+    if (note.lane !== lane) return false
+    const [start, end] = getNoteRange(note)
+    return beat >= start - tolerance && beat <= end + tolerance
+  })
+}
+
+// 같은 레인의 다른 노트와 겹치지 않는지 확인 (ignoreIndex는 이동 중인 노트)
+export function canPlaceNote(notes: ChartNote[], candidate: ChartNote, ignoreIndex = -1) {
+  if (candidate.beat < 0) return false
+  const [start, end] = getNoteRange(candidate)
+  return notes.every((note, index) => {
+    if (index === ignoreIndex || note.lane !== candidate.lane) return true
+    const [otherStart, otherEnd] = getNoteRange(note)
+    return end < otherStart || start > otherEnd
+  })
+}
+
+export function sortNotes(notes: ChartNote[]) {
+  return [...notes].sort((a, b) => a.beat - b.beat || a.lane - b.lane)
+}
+
+// 샘플 구간의 최대 진폭 (0~1, 구간이 길면 일정 간격으로 건너뛰며 확인)
+export function getPeak(samples: Float32Array, start: number, end: number) {
+  const from = Math.max(0, Math.floor(start))
+  const to = Math.min(samples.length, Math.ceil(end))
+  const step = Math.max(1, Math.floor((to - from) / 64))
+  let peak = 0
+  for (let i = from; i < to; i += step) {
+    const value = Math.abs(samples[i])
+    if (value > peak) peak = value
+  }
+  return peak
+}
+
+// 실행 취소/다시 실행 기록
+export interface EditHistory {
+  past: ChartNote[][]
+  present: ChartNote[]
+  future: ChartNote[][]
+}
+
+const MAX_HISTORY = 200
+
+export function createHistory(notes: ChartNote[]): EditHistory {
+  return { past: [], present: notes, future: [] }
+}
+
+export function commitHistory(history: EditHistory, notes: ChartNote[]): EditHistory {
+  return { past: [...history.past, history.present].slice(-MAX_HISTORY), present: notes, future: [] }
+}
+
+export function undoHistory(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  }
+}
+
+export function redoHistory(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  }
+}
@@ -0,0 +1,231 @@
+import { parseBms } from "@/lib/bms-import"
+import {
+  CHART_FORMAT_VERSION,
+  ChartParseError,
+  parseChartJson,
+  type Chart,
+  type ChartNote,
+  type ChartSound,
+  type TimingPoint,
+} from "@/lib/chart"
+import { KEY_MODES, type Difficulty, type KeyMode } from "@/lib/game-config"
+import { parseOsuMania } from "@/lib/osu-import"
+import { TimingMap } from "@/lib/timing"
+
+// 채보 파일로 불러올 수 있는 확장자 (파일 선택 창의 accept 값)
+export const CHART_FILE_EXTENSIONS = [".json", ".bms", ".bme", ".bml", ".osu"]
+
+// BMS, osu!mania 채보를 읽은 결과 (시각은 곡 시간 ms, 변속과 정지는 이미 반영됨)
+export interface ImportedNote {
+  time: number
+  endTime?: number // 롱노트 끝 시간
+  column: number
+  sound?: string
+}
+
+// 곡 시간에서 일어나는 변속, 정지(ms), 스크롤 속도 변화
+export interface ImportedTimingPoint {
+  time: number
+  bpm?: number
+  stop?: number
+  scroll?: number
+}
+
+export interface ImportedChart {
+  title: string
+  artist: string
+  difficulty: Difficulty
+  audio?: string
+  bpm: number // 첫 BPM
+  offset: number // 0박의 곡 시간
+  columns: number
+  // 지원하는 키 모드보다 한 칸 적을 때 빈 레인을 둘 쪽 (BMS는 스크래치 자리인 왼쪽)
+  padSide: "left" | "right"
+  notes: ImportedNote[]
+  sounds?: Record<string, string>
+  bgm?: { time: number; sound: string }[]
+  timing?: ImportedTimingPoint[] // 첫 BPM 이후의 변화 (시각 순)
+}
+
+export interface ImportResult {
+  chart: Chart
+  columns: number // 원본 채보의 키 수
+  droppedNotes: number // 같은 레인에서 겹쳐 뺀 노트 수
+}
+
+// 원본 키 수에 맞는 키 모드 (한 칸 모자라면 빈 레인을 더하고, 그 밖에는 거부)
+export function mapColumnCount(columns: number): KeyMode {
+  if (columns in KEY_MODES) return columns as KeyMode
+  if (columns + 1 in KEY_MODES) return (columns + 1) as KeyMode
+  throw new ChartParseError(
+    `${columns}키 채보는 지원하지 않습니다 (${Object.keys(KEY_MODES).join(", ")}키, 한 칸 적은 채보는 빈 레인을 더해 변환)`,
+  )
+}
+
+const roundBeat = (beat: number) => Math.round(beat * 1e6) / 1e6
+
+// 곡 시간 기준 타이밍 변화를 박자 위치로 (바뀌는 것이 없는 변화는 뺀다)
+const toTimingPoints = (imported: ImportedChart): TimingPoint[] => {
+  let beat = 0
+  let time = imported.offset
+  let bpm = imported.bpm
+  let scroll = 1
+  const points: TimingPoint[] = []
+  const sorted = [...(imported.timing ?? [])].sort((a, b) => a.time - b.time)
+  sorted.forEach((event) => {
+    // 정지 중에 있는 변화(같은 박자의 정지가 여럿인 경우)는 정지가 끝난 시각에 적용
+    beat += (Math.max(0, event.time - time) * bpm) / 60000
+    time = Math.max(time, event.time)
+    const point: TimingPoint = { beat: roundBeat(Math.max(0, beat)) }
+    if (event.bpm !== undefined && event.bpm !== bpm) {
+      bpm = event.bpm
+      point.bpm = bpm
+    }
+    if (event.scroll !== undefined && event.scroll !== scroll) {
+      scroll = event.scroll
+      point.scroll = scroll
+    }
+    if (event.stop !== undefined && event.stop > 0) {
+      point.stop = event.stop
+      time += event.stop
+    }
+    if (point.bpm === undefined && point.scroll === undefined && point.stop === undefined) return
+    // 같은 박자의 변화는 앞의 포인트에 합친다 (정지가 있는 포인트 뒤의 변화는 정지가 끝난 뒤에 적용되므로 따로 둔다)
+    const last = points[points.length - 1]
+    if (last && last.beat === point.beat && last.stop === undefined) Object.assign(last, point)
+    else points.push(point)
+  })
+  return points
+}
+
+// 읽은 채보를 이 게임의 채보 형식으로 변환
+export function convertImportedChart(imported: ImportedChart): ImportResult {
+  if (imported.notes.length === 0) {
+    throw new ChartParseError("건반 노트가 없습니다")
+  }
+  const keyMode = mapColumnCount(imported.columns)
+  const laneShift = keyMode !== imported.columns && imported.padSide === "left" ? 1 : 0
+  // 곡 시간을 변속과 정지를 반영한 박자로 (정지 중인 시각은 정지한 박자)
+  const timing = toTimingPoints(imported)
+  const timingMap = new TimingMap(imported, timing)
+  const toBeat = (time: number) => roundBeat(timingMap.timeToBeat(time))
+
+  // 같은 레인에서 앞 노트(롱노트는 꼬리까지)와 겹치는 노트는 뺀다
+  const laneFreeAt = new Map<number, number>()
+  const notes: ChartNote[] = []
+  let droppedNotes = 0
+  const sorted = [...imported.notes].sort((a, b) => a.time - b.time || a.column - b.column)
+  sorted.forEach(({ time, endTime, column, sound }) => {
+    const lane = column + laneShift
+    if (time <= (laneFreeAt.get(lane) ?? -Infinity)) {
+      droppedNotes++
+      return
+    }
+    const note: ChartNote = { beat: toBeat(time), lane }
+    if (endTime !== undefined && endTime > time) {
+      note.length = roundBeat(toBeat(endTime) - note.beat)
+    }
+    if (sound !== undefined) note.sound = sound
+    notes.push(note)
+    laneFreeAt.set(lane, endTime ?? time)
+  })
+
+  const chart: Chart = {
+    version: CHART_FORMAT_VERSION,
+    meta: {
+      title: imported.title,
+      artist: imported.artist,
+      bpm: imported.bpm,
+      offset: imported.offset,
+      keyMode,
+      difficulty: imported.difficulty,
+      audio: imported.audio,
+    },
+    notes,
+  }
+  if (imported.sounds) chart.meta.sounds = imported.sounds
+  if (timing.length > 0) chart.timing = timing
+  if (imported.bgm && imported.bgm.length > 0) {
+    chart.bgm = imported.bgm
+      .filter(({ time }) => time >= imported.offset)
+      .map(({ time, sound }): ChartSound => ({ beat: toBeat(time), sound }))
+      .sort((a, b) => a.beat - b.beat)
+  }
+  return { chart, columns: imported.columns, droppedNotes }
+}
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".")
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : ""
+}
+
+export const isChartFileName = (fileName: string) => CHART_FILE_EXTENSIONS.includes(getExtension(fileName))
+
+// 파일 이름(확장자)에 맞는 형식으로 채보 읽기
+export function importChart(fileName: string, text: string): ImportResult {
+  switch (getExtension(fileName)) {
+    case ".bms":
+    case ".bme":
+    case ".bml":
+      return convertImportedChart(parseBms(text))
+    case ".osu":
+      return convertImportedChart(parseOsuMania(text))
+    default: {
+      const chart = parseChartJson(text)
+      return { chart, columns: chart.meta.keyMode, droppedNotes: 0 }
+    }
+  }
+}
+
+// 채보 파일 내용 읽기 (UTF-8이 아니면 BMS에 흔한 Shift_JIS로 읽는다)
+export async function readChartFileText(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder("shift_jis").decode(buffer)
+  }
+}
+
+const getBaseName = (path: string) => (path.split(/[\\/]/).pop() ?? path).toLowerCase()
+const stripExtension = (name: string) => name.replace(/\.[^.]*$/, "")
+
+export interface ResolvedChartAssets {
+  chart: Chart
+  audioFile: File | null
+  missingSounds: string[] // 함께 선택한 파일에서 찾지 못한 키음 파일
+}
+
+// 채보와 함께 선택한 파일에서 음원과 키음 찾기
+// (키음은 blob URL로 바꾸고, 확장자만 다른 파일도 같은 소리로 본다: BMS는 .wav로 적고 .ogg로 배포하는 경우가 많다)
+export function resolveChartAssets(chart: Chart, files: File[]): ResolvedChartAssets {
+  const byName = new Map(files.map((file) => [file.name.toLowerCase(), file]))
+  const byStem = new Map(files.map((file) => [stripExtension(file.name.toLowerCase()), file]))
+  const findFile = (path: string) => {
+    const name = getBaseName(path)
+    return byName.get(name) ?? byStem.get(stripExtension(name))
+  }
+
+  const audioFile = (chart.meta.audio && findFile(chart.meta.audio)) || null
+  const sounds = chart.meta.sounds
+  if (!sounds) return { chart, audioFile, missingSounds: [] }
+
+  const resolved: Record<string, string> = {}
+  const missingSounds: string[] = []
+  Object.entries(sounds).forEach(([id, path]) => {
+    const file = findFile(path)
+    if (file) resolved[id] = URL.createObjectURL(file)
+    else missingSounds.push(path)
+  })
+
+  // 찾지 못한 키음은 채보에서 뺀다 (노트는 기본 타격음으로)
+  const resolvedChart: Chart = {
+    ...chart,
+    meta: { ...chart.meta, sounds: resolved },
+    notes: chart.notes.map((note) =>
+      note.sound === undefined || note.sound in resolved ? note : { ...note, sound: undefined },
+    ),
+  }
+  if (chart.bgm) resolvedChart.bgm = chart.bgm.filter((event) => event.sound in resolved)
+  return { chart: resolvedChart, audioFile, missingSounds }
+}
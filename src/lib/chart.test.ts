@@ -0,0 +1,131 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import {
+  CHART_FORMAT_VERSION,
+  ChartParseError,
+  beatToTime,
+  chartToNotes,
+  parseChart,
+  parseChartJson,
+  serializeChart,
+  timeToBeat,
+} from "@/lib/chart"
+
+const META = { title: "Test", artist: "Tester", bpm: 120, offset: 100, keyMode: 4, difficulty: "normal" }
+
+const createChart = (fields: Record<string, unknown> = {}) => ({
+  version: CHART_FORMAT_VERSION,
+  meta: META,
+  notes: [
+    { beat: 0, lane: 0 },
+    { beat: 1, lane: 1, length: 2 },
+  ],
+  ...fields,
+})
+
+// 채보 검증 에러의 필드 위치와 메시지
+const assertParseError = (input: unknown, path: string | undefined, message: RegExp) =>
+  assert.throws(
+    () => parseChart(input),
+    (error) => {
+      assert.ok(error instanceof ChartParseError)
+      assert.equal(error.path, path)
+      assert.match(error.message, message)
+      return true
+    },
+  )
+
+describe("parseChart", () => {
+  test("올바른 채보는 노트를 박자, 레인 순으로 정렬해 읽는다", () => {
+    const chart = parseChart(
+      createChart({
+        notes: [
+          { beat: 2, lane: 3 },
+          { beat: 0, lane: 2 },
+          { beat: 0, lane: 1, length: 1.5 },
+        ],
+      }),
+    )
+    assert.deepEqual(chart.notes, [
+      { beat: 0, lane: 1, length: 1.5 },
+      { beat: 0, lane: 2 },
+      { beat: 2, lane: 3 },
+    ])
+    assert.deepEqual(parseChartJson(serializeChart(chart)), chart)
+  })
+
+  test("지원하지 않는 버전은 거부한다", () => {
+    assertParseError(createChart({ version: 2 }), "version", /^version: 지원하지 않는 채보 버전입니다 \(2, 지원: 1\)$/)
+    assertParseError(createChart({ version: undefined }), "version", /undefined/)
+  })
+
+  test("키 모드를 벗어난 레인은 필드 위치와 함께 거부한다", () => {
+    assertParseError(
+      createChart({ notes: [{ beat: 0, lane: 4 }] }),
+      "notes[0].lane",
+      /^notes\[0\]\.lane: 4키 채보의 레인은 0~3 사이의 정수여야 합니다$/,
+    )
+    assertParseError(createChart({ notes: [{ beat: 0, lane: 1.5 }] }), "notes[0].lane", /정수/)
+  })
+
+  test("같은 레인에서 겹친 노트(롱노트 꼬리 포함)는 거부한다", () => {
+    assertParseError(
+      createChart({
+        notes: [
+          { beat: 1, lane: 2 },
+          { beat: 1, lane: 2 },
+        ],
+      }),
+      "notes[1]",
+      /^notes\[1\]: 같은 레인의 notes\[0\]와 겹쳐 있습니다$/,
+    )
+    assertParseError(
+      createChart({
+        notes: [
+          { beat: 4, lane: 0 },
+          { beat: 2, lane: 0, length: 2 },
+        ],
+      }),
+      "notes[0]",
+      /notes\[1\]와 겹쳐/,
+    )
+    // 다른 레인이거나 꼬리 뒤에 오면 괜찮다
+    parseChart(
+      createChart({
+        notes: [
+          { beat: 2, lane: 0, length: 2 },
+          { beat: 3, lane: 1 },
+          { beat: 4.25, lane: 0 },
+        ],
+      }),
+    )
+  })
+
+  test("메타 정보와 JSON 형식 오류도 필드 위치로 알린다", () => {
+    assertParseError(createChart({ meta: { ...META, bpm: 0 } }), "meta.bpm", /^meta\.bpm: 0보다 커야 합니다$/)
+    assertParseError(createChart({ meta: { ...META, title: " " } }), "meta.title", /문자열/)
+    assertParseError(createChart({ notes: [{ beat: -1, lane: 0 }] }), "notes[0].beat", /0 이상/)
+    assertParseError(createChart({ notes: [{ beat: 0, lane: 0, sound: "kick" }] }), "notes[0].sound", /meta\.sounds/)
+    assert.throws(() => parseChartJson("{"), (error) => error instanceof ChartParseError && !error.path)
+  })
+})
+
+describe("박자와 곡 시간 변환", () => {
+  test("오프셋과 BPM으로 박자를 곡 시간(ms)으로 바꾼다", () => {
+    assert.equal(beatToTime(0, META), 100)
+    assert.equal(beatToTime(4, META), 2100)
+    assert.equal(timeToBeat(2100, META), 4)
+    assert.equal(timeToBeat(beatToTime(3.75, META), META), 3.75)
+  })
+
+  test("게임 노트는 오프셋을 반영한 시작, 끝 시각을 갖는다", () => {
+    const notes = chartToNotes(parseChart(createChart()), 10)
+    assert.deepEqual(
+      notes.map(({ id, lane, startTime, endTime }) => ({ id, lane, startTime, endTime })),
+      [
+        { id: 10, lane: 0, startTime: 100, endTime: undefined },
+        { id: 11, lane: 1, startTime: 600, endTime: 1600 },
+      ],
+    )
+  })
+})
@@ -0,0 +1,322 @@
+import { DIFFICULTY_SETTINGS, KEY_MODES, type Difficulty, type KeyMode, type Note } from "@/lib/game-config"
+import { TimingMap } from "@/lib/timing"
+
+// 채보 파일 포맷 버전
+export const CHART_FORMAT_VERSION = 1
+
+export interface ChartMeta {
+  title: string
+  artist: string
+  bpm: number // 처음 BPM (도중에 바뀌면 timing에 적는다)
+  offset: number // 음원에서 0박이 시작되는 시간 (ms)
+  keyMode: KeyMode
+  difficulty: Difficulty
+  audio?: string // 음원 파일 경로 (채보 파일 기준 상대 경로)
+  sounds?: Record<string, string> // 키음 ID → 소리 파일 경로 (채보 파일 기준 상대 경로)
+}
+
+export interface ChartNote {
+  beat: number // 0박부터의 박자 위치 (소수 허용, 예: 4.5)
+  lane: number
+  length?: number // 롱노트 길이 (박), 없으면 단타 노트
+  sound?: string // 맞췄을 때 재생할 키음 ID (meta.sounds의 키)
+}
+
+// 입력과 무관하게 자동으로 재생되는 소리 (BMS의 배경음 채널)
+export interface ChartSound {
+  beat: number
+  sound: string // 키음 ID (meta.sounds의 키)
+}
+
+// 박자 위치에서 일어나는 변속, 정지, 스크롤 속도 변화 (하나 이상 지정)
+export interface TimingPoint {
+  beat: number
+  bpm?: number // 이 박자부터의 BPM
+  stop?: number // 이 박자의 노트 뒤에 멈추는 시간 (ms)
+  scroll?: number // 이 박자부터의 스크롤 속도 배율 (0이면 노트가 멈춰 보인다)
+}
+
+export interface Chart {
+  version: number
+  meta: ChartMeta
+  notes: ChartNote[]
+  bgm?: ChartSound[]
+  timing?: TimingPoint[]
+}
+
+// 잘못된 채보 파일 에러 (path는 문제가 된 필드 위치)
+export class ChartParseError extends Error {
+  constructor(
+    message: string,
+    public readonly path?: string,
+  ) {
+    super(path ? `${path}: ${message}` : message)
+    this.name = "ChartParseError"
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const readString = (source: Record<string, unknown>, key: string, path: string) => {
+  const value = source[key]
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ChartParseError("비어 있지 않은 문자열이어야 합니다", `${path}.${key}`)
+  }
+  return value
+}
+
+const readNumber = (source: Record<string, unknown>, key: string, path: string) => {
+  const value = source[key]
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ChartParseError("숫자여야 합니다", `${path}.${key}`)
+  }
+  return value
+}
+
+const parseMeta = (input: unknown): ChartMeta => {
+  if (!isRecord(input)) {
+    throw new ChartParseError("객체여야 합니다", "meta")
+  }
+
+  const bpm = readNumber(input, "bpm", "meta")
+  if (bpm <= 0) {
+    throw new ChartParseError("0보다 커야 합니다", "meta.bpm")
+  }
+
+  const keyMode = input.keyMode
+  if (typeof keyMode !== "number" || !(keyMode in KEY_MODES)) {
+    throw new ChartParseError(`지원하지 않는 키 모드입니다 (${Object.keys(KEY_MODES).join(", ")})`, "meta.keyMode")
+  }
+
+  const difficulty = input.difficulty
+  if (typeof difficulty !== "string" || !(difficulty in DIFFICULTY_SETTINGS)) {
+    throw new ChartParseError(
+      `지원하지 않는 난이도입니다 (${Object.keys(DIFFICULTY_SETTINGS).join(", ")})`,
+      "meta.difficulty",
+    )
+  }
+
+  if (input.audio !== undefined && typeof input.audio !== "string") {
+    throw new ChartParseError("문자열이어야 합니다", "meta.audio")
+  }
+
+  const sounds = input.sounds
+  if (sounds !== undefined) {
+    if (!isRecord(sounds)) {
+      throw new ChartParseError("키음 ID → 파일 경로 객체여야 합니다", "meta.sounds")
+    }
+    Object.keys(sounds).forEach((id) => readString(sounds, id, "meta.sounds"))
+  }
+
+  const meta: ChartMeta = {
+    title: readString(input, "title", "meta"),
+    artist: readString(input, "artist", "meta"),
+    bpm,
+    offset: input.offset === undefined ? 0 : readNumber(input, "offset", "meta"),
+    keyMode: keyMode as KeyMode,
+    difficulty: difficulty as Difficulty,
+    audio: input.audio,
+  }
+  if (sounds !== undefined) meta.sounds = sounds as Record<string, string>
+  return meta
+}
+
+const parseNotes = (input: unknown, { keyMode, sounds }: ChartMeta): ChartNote[] => {
+  if (!Array.isArray(input)) {
+    throw new ChartParseError("배열이어야 합니다", "notes")
+  }
+
+  const notes = input.map((raw, index): ChartNote => {
+    const path = `notes[${index}]`
+    if (!isRecord(raw)) {
+      throw new ChartParseError("객체여야 합니다", path)
+    }
+
+    const beat = readNumber(raw, "beat", path)
+    if (beat < 0) {
+      throw new ChartParseError("0 이상이어야 합니다", `${path}.beat`)
+    }
+
+    const lane = readNumber(raw, "lane", path)
+    if (!Number.isInteger(lane) || lane < 0 || lane >= keyMode) {
+      throw new ChartParseError(`${keyMode}키 채보의 레인은 0~${keyMode - 1} 사이의 정수여야 합니다`, `${path}.lane`)
+    }
+
+    const note: ChartNote = { beat, lane }
+    if (raw.length !== undefined) {
+      const length = readNumber(raw, "length", path)
+      if (length <= 0) {
+        throw new ChartParseError("0보다 커야 합니다", `${path}.length`)
+      }
+      note.length = length
+    }
+    if (raw.sound !== undefined) {
+      const sound = readString(raw, "sound", path)
+      if (!sounds || !(sound in sounds)) {
+        throw new ChartParseError("meta.sounds에 없는 키음입니다", `${path}.sound`)
+      }
+      note.sound = sound
+    }
+    return note
+  })
+
+  // 같은 레인에서 노트(롱노트는 꼬리까지)가 겹치는지 확인
+  const order = notes.map((_, index) => index).sort((a, b) => notes[a].beat - notes[b].beat)
+  const laneLast = new Map<number, number>()
+  order.forEach((index) => {
+    const note = notes[index]
+    const previous = laneLast.get(note.lane)
+    if (previous !== undefined) {
+      const previousNote = notes[previous]
+      if (note.beat <= previousNote.beat + (previousNote.length ?? 0)) {
+        throw new ChartParseError(`같은 레인의 notes[${previous}]와 겹쳐 있습니다`, `notes[${index}]`)
+      }
+    }
+    laneLast.set(note.lane, index)
+  })
+
+  return notes.sort((a, b) => a.beat - b.beat || a.lane - b.lane)
+}
+
+const parseBgm = (input: unknown, { sounds }: ChartMeta): ChartSound[] => {
+  if (!Array.isArray(input)) {
+    throw new ChartParseError("배열이어야 합니다", "bgm")
+  }
+  return input
+    .map((raw, index): ChartSound => {
+      const path = `bgm[${index}]`
+      if (!isRecord(raw)) {
+        throw new ChartParseError("객체여야 합니다", path)
+      }
+      const beat = readNumber(raw, "beat", path)
+      if (beat < 0) {
+        throw new ChartParseError("0 이상이어야 합니다", `${path}.beat`)
+      }
+      const sound = readString(raw, "sound", path)
+      if (!sounds || !(sound in sounds)) {
+        throw new ChartParseError("meta.sounds에 없는 키음입니다", `${path}.sound`)
+      }
+      return { beat, sound }
+    })
+    .sort((a, b) => a.beat - b.beat)
+}
+
+const parseTiming = (input: unknown): TimingPoint[] => {
+  if (!Array.isArray(input)) {
+    throw new ChartParseError("배열이어야 합니다", "timing")
+  }
+  return input
+    .map((raw, index): TimingPoint => {
+      const path = `timing[${index}]`
+      if (!isRecord(raw)) {
+        throw new ChartParseError("객체여야 합니다", path)
+      }
+      const beat = readNumber(raw, "beat", path)
+      if (beat < 0) {
+        throw new ChartParseError("0 이상이어야 합니다", `${path}.beat`)
+      }
+      const point: TimingPoint = { beat }
+      if (raw.bpm !== undefined) {
+        point.bpm = readNumber(raw, "bpm", path)
+        if (point.bpm <= 0) throw new ChartParseError("0보다 커야 합니다", `${path}.bpm`)
+      }
+      if (raw.stop !== undefined) {
+        point.stop = readNumber(raw, "stop", path)
+        if (point.stop <= 0) throw new ChartParseError("0보다 커야 합니다", `${path}.stop`)
+      }
+      if (raw.scroll !== undefined) {
+        point.scroll = readNumber(raw, "scroll", path)
+        if (point.scroll < 0) throw new ChartParseError("0 이상이어야 합니다", `${path}.scroll`)
+      }
+      if (point.bpm === undefined && point.stop === undefined && point.scroll === undefined) {
+        throw new ChartParseError("bpm, stop, scroll 중 하나 이상이 있어야 합니다", path)
+      }
+      return point
+    })
+    .sort((a, b) => a.beat - b.beat)
+}
+
+// JSON 객체를 검증하여 채보로 변환
+export function parseChart(input: unknown): Chart {
+  if (!isRecord(input)) {
+    throw new ChartParseError("채보 파일은 JSON 객체여야 합니다")
+  }
+
+  if (input.version !== CHART_FORMAT_VERSION) {
+    throw new ChartParseError(
+      `지원하지 않는 채보 버전입니다 (${String(input.version)}, 지원: ${CHART_FORMAT_VERSION})`,
+      "version",
+    )
+  }
+
+  const meta = parseMeta(input.meta)
+  const notes = parseNotes(input.notes, meta)
+
+  const chart: Chart = { version: CHART_FORMAT_VERSION, meta, notes }
+  if (input.bgm !== undefined) chart.bgm = parseBgm(input.bgm, meta)
+  if (input.timing !== undefined) chart.timing = parseTiming(input.timing)
+  return chart
+}
+
+// 채보 파일 문자열 파싱
+export function parseChartJson(text: string): Chart {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new ChartParseError(`JSON 형식이 올바르지 않습니다 (${(error as Error).message})`)
+  }
+  return parseChart(json)
+}
+
+// 박자 위치를 곡 시간(ms)으로 변환 (변속이 없는 채보, 변속이 있으면 getChartTiming)
+export function beatToTime(beat: number, meta: Pick<ChartMeta, "bpm" | "offset">): number {
+  return meta.offset + (beat * 60000) / meta.bpm
+}
+
+// 곡 시간(ms)을 박자 위치로 변환 (변속이 없는 채보)
+export function timeToBeat(time: number, meta: Pick<ChartMeta, "bpm" | "offset">): number {
+  return ((time - meta.offset) * meta.bpm) / 60000
+}
+
+// 채보의 변속, 정지, 스크롤 속도 변화를 반영한 시간 변환
+export function getChartTiming(chart: Pick<Chart, "meta" | "timing">): TimingMap {
+  return new TimingMap(chart.meta, chart.timing)
+}
+
+// 채보를 파일로 저장할 JSON 문자열 (노트, 배경음, 타이밍은 한 줄에 하나씩)
+export function serializeChart(chart: Chart): string {
+  const meta = JSON.stringify(chart.meta, null, 2).replace(/\n/g, "\n  ")
+  const formatItems = (items: object[]) =>
+    items
+      .map((item) => {
+        const fields = Object.entries(item).filter(([, value]) => value !== undefined)
+        return `    { ${fields.map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(", ")} }`
+      })
+      .join(",\n")
+  const notes = formatItems([...chart.notes].sort((a, b) => a.beat - b.beat || a.lane - b.lane))
+  const formatList = (key: string, items: object[] | undefined) =>
+    items && items.length > 0 ? `,\n  "${key}": [\n${formatItems(items)}\n  ]` : ""
+  const lists = formatList("bgm", chart.bgm) + formatList("timing", chart.timing)
+  return `{\n  "version": ${chart.version},\n  "meta": ${meta},\n  "notes": [\n${notes}\n  ]${lists}\n}\n`
+}
+
+// 채보를 게임용 노트 목록으로 변환
+export function chartToNotes(chart: Chart, firstId = 0): Note[] {
+  const timing = getChartTiming(chart)
+  return chart.notes.map((note, index) => ({
+    id: firstId + index,
+    lane: note.lane,
+    startTime: timing.beatToTime(note.beat),
+    endTime: note.length !== undefined ? timing.beatToTime(note.beat + note.length) : undefined,
+    sound: note.sound,
+    currentY: -100,
+    hit: false,
+  }))
+}
+
+// 기록 저장용 채보 식별자 (곡 + 키 모드 + 난이도)
+export function getChartId(songId: string, keyMode: KeyMode, difficulty: Difficulty) {
+  return `${songId}/${keyMode}k-${difficulty}`
+}
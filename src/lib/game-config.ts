@@ -0,0 +1,230 @@
+export interface Note {
+  id: number
+  lane: number
+  startTime: number // 판정선에 도달하는 곡 시간 (ms)
+  endTime?: number // 롱노트 끝 시간 (ms), 없으면 단타 노트
+  sound?: string // 키음 ID (채보의 meta.sounds)
+  currentY: number
+  element?: HTMLDivElement
+  hit: boolean // 판정이 끝난 노트 (롱노트는 꼬리까지)
+  holding?: boolean // 롱노트 머리를 맞추고 누르고 있는 중
+  holdTicks?: number // 콤보에 반영한 홀드 틱 수
+}
+
+export interface GameStats {
+  ruleset: RulesetId
+  score: number
+  combo: number
+  maxCombo: number
+  judgments: Partial<Record<Judgment, number>> // 규칙에 있는 판정 단계별 횟수
+  totalJudgments: number // 채보 전체의 판정 수 (단타 1, 롱노트는 머리와 꼬리 2)
+}
+
+// 판정 단계 (규칙마다 이 중 일부를 쓰고, MISS는 모든 규칙에 있다)
+export type Judgment = "marvelous" | "perfect" | "great" | "good" | "bad" | "miss"
+export type HitJudgment = Exclude<Judgment, "miss">
+
+// 판정 표시 (게임 화면 색과 통계 카드 글자색)
+export const JUDGMENT_DISPLAY: Record<Judgment, { label: string; color: string; className: string }> = {
+  marvelous: { label: "MARVELOUS", color: "#67e8f9", className: "text-cyan-300" },
+  perfect: { label: "PERFECT", color: "#facc15", className: "text-yellow-400" },
+  great: { label: "GREAT", color: "#4ade80", className: "text-green-400" },
+  good: { label: "GOOD", color: "#60a5fa", className: "text-blue-400" },
+  bad: { label: "BAD", color: "#c084fc", className: "text-purple-400" },
+  miss: { label: "MISS", color: "#f87171", className: "text-red-400" },
+}
+
+export interface JudgmentTier {
+  judgment: HitJudgment
+  window: number // 판정 범위 (ms, 입력 시각과 노트 시각 차이의 절댓값)
+  weight: number // 정확도 가중치 (0~1)
+  points: number // 콤보 점수 방식의 기본 점수
+  gauge: number // 게이지 변화 (양수: 회복 비율, 최고 판정이 1 / 0 이하: 감소량 %)
+  breaksCombo?: boolean
+}
+
+// 점수 방식
+// accuracy: 가중 정확도를 1,000,000점 만점으로 환산 (곡 길이와 무관)
+// combo: 판정 점수 × 콤보 배율(10콤보마다 +1)을 누적 (곡이 길수록 높아진다)
+export type ScoringMode = "accuracy" | "combo"
+
+export interface Ruleset {
+  name: string
+  description: string
+  tiers: JudgmentTier[] // 좁은 범위부터, 마지막 범위를 지나면 MISS
+  scoring: ScoringMode
+  lateRelease: HitJudgment // 롱노트를 꼬리 판정 범위가 지나도록 누르고 있을 때의 판정
+  missGauge: number // MISS의 게이지 감소량 (%, 음수)
+}
+
+// 판정 규칙
+export const RULESETS = {
+  standard: {
+    name: "표준",
+    description: "5단계 판정, 정확도 기준 100만 점",
+    tiers: [
+      { judgment: "marvelous", window: 16, weight: 1, points: 1000, gauge: 1 },
+      { judgment: "perfect", window: 40, weight: 0.9, points: 900, gauge: 1 },
+      { judgment: "great", window: 73, weight: 0.6, points: 600, gauge: 0.5 },
+      { judgment: "good", window: 103, weight: 0.3, points: 300, gauge: 0 },
+      { judgment: "bad", window: 127, weight: 0, points: 0, gauge: -2, breaksCombo: true },
+    ],
+    scoring: "accuracy",
+    lateRelease: "great",
+    missGauge: -6,
+  },
+  simple: {
+    name: "간단",
+    description: "PERFECT/GOOD 2단계 판정, 정확도 기준 100만 점",
+    tiers: [
+      { judgment: "perfect", window: 50, weight: 1, points: 1000, gauge: 1 },
+      { judgment: "good", window: 100, weight: 0.5, points: 500, gauge: 0.5 },
+    ],
+    scoring: "accuracy",
+    lateRelease: "good",
+    missGauge: -6,
+  },
+  classic: {
+    name: "클래식",
+    description: "PERFECT/GOOD 2단계 판정, 콤보 배율 누적 점수",
+    tiers: [
+      { judgment: "perfect", window: 50, weight: 1, points: 1000, gauge: 1 },
+      { judgment: "good", window: 100, weight: 0.5, points: 500, gauge: 0.5 },
+    ],
+    scoring: "combo",
+    lateRelease: "good",
+    missGauge: -6,
+  },
+} satisfies Record<string, Ruleset>
+
+export type RulesetId = keyof typeof RULESETS
+
+export const DEFAULT_RULESET: RulesetId = "standard"
+
+export function getRuleset(id: RulesetId): Ruleset {
+  return RULESETS[id]
+}
+
+// 판정되지 않은 노트가 MISS가 되는 시각 차이 (가장 넓은 판정 범위)
+export function getMissWindow(ruleset: Ruleset) {
+  return ruleset.tiers[ruleset.tiers.length - 1].window
+}
+
+// 롱노트를 누르고 있는 동안 콤보가 오르는 간격 (ms)
+export const HOLD_TICK_INTERVAL = 250
+
+// 게임 화면 배치
+export const BASE_NOTE_SPEED = 350 // pixels per second (기본 속도)
+export const JUDGMENT_LINE_Y = 500
+export const GAME_HEIGHT = 600
+export const END_DELAY = 1500 // 마지막 노트 이후 결과 화면까지 대기 시간 (ms)
+
+// 입력 시각 차이에 따른 판정 (범위 밖이면 null)
+export function judgeTiming(timeDiff: number, ruleset: Ruleset): HitJudgment | null {
+  const diff = Math.abs(timeDiff)
+  return ruleset.tiers.find((tier) => diff <= tier.window)?.judgment ?? null
+}
+
+// 키 모드별 설정
+export const KEY_MODES = {
+  4: {
+    keys: ["A", "S", "D", "F"],
+    keyMap: {
+      KeyA: 0,
+      ArrowLeft: 0,
+      KeyS: 1,
+      ArrowDown: 1,
+      KeyD: 2,
+      ArrowUp: 2,
+      KeyF: 3,
+      ArrowRight: 3,
+    },
+    colors: ["bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500"],
+  },
+  6: {
+    keys: ["A", "S", "D", "J", "K", "L"],
+    keyMap: {
+      KeyA: 0,
+      KeyS: 1,
+      KeyD: 2,
+      KeyJ: 3,
+      KeyK: 4,
+      KeyL: 5,
+    },
+    colors: ["bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500", "bg-purple-500", "bg-pink-500"],
+  },
+  8: {
+    keys: ["A", "S", "D", "F", "J", "K", "L", ";"],
+    keyMap: {
+      KeyA: 0,
+      KeyS: 1,
+      KeyD: 2,
+      KeyF: 3,
+      KeyJ: 4,
+      KeyK: 5,
+      KeyL: 6,
+      Semicolon: 7,
+    },
+    colors: [
+      "bg-red-500",
+      "bg-blue-500",
+      "bg-green-500",
+      "bg-yellow-500",
+      "bg-purple-500",
+      "bg-pink-500",
+      "bg-indigo-500",
+      "bg-orange-500",
+    ],
+  },
+}
+
+// 레인 색상 클래스의 실제 색상 (캔버스 그리기용)
+export const LANE_COLOR_HEX: Record<string, string> = {
+  "bg-red-500": "#ef4444",
+  "bg-blue-500": "#3b82f6",
+  "bg-green-500": "#22c55e",
+  "bg-yellow-500": "#eab308",
+  "bg-purple-500": "#a855f7",
+  "bg-pink-500": "#ec4899",
+  "bg-indigo-500": "#6366f1",
+  "bg-orange-500": "#f97316",
+}
+
+// 난이도별 설정
+export const DIFFICULTY_SETTINGS = {
+  easy: {
+    name: "Easy",
+    noteInterval: { min: 800, max: 1200 }, // 노트 간격 (ms)
+    patternComplexity: 0.3, // 복잡한 패턴 확률
+    holdNoteRatio: 0.1, // 롱노트 비율
+    speedMultiplier: 0.8, // 기본 속도 배수
+    // 랜덤 채보의 패턴 계열별 가중치 (연타, 트릴, 계단, 같은 레인 연타, 동시치기, 동시치기 연타)
+    patternWeights: { stream: 4, trill: 2, stair: 3, jack: 0, jump: 0, chordJack: 0 },
+    maxJack: 2, // 같은 레인을 연속으로 칠 수 있는 최대 횟수
+    color: "text-green-400",
+  },
+  normal: {
+    name: "Normal",
+    noteInterval: { min: 400, max: 800 },
+    patternComplexity: 0.6,
+    holdNoteRatio: 0.15,
+    speedMultiplier: 1.0,
+    patternWeights: { stream: 3, trill: 2, stair: 2, jack: 1, jump: 2, chordJack: 0 },
+    maxJack: 3,
+    color: "text-yellow-400",
+  },
+  hard: {
+    name: "Hard",
+    noteInterval: { min: 200, max: 600 },
+    patternComplexity: 1.0,
+    holdNoteRatio: 0.2,
+    speedMultiplier: 1.2,
+    patternWeights: { stream: 3, trill: 2, stair: 2, jack: 2, jump: 3, chordJack: 1 },
+    maxJack: 4,
+    color: "text-red-400",
+  },
+}
+
+export type KeyMode = keyof typeof KEY_MODES
+export type Difficulty = keyof typeof DIFFICULTY_SETTINGS
+export type PatternFamily = keyof (typeof DIFFICULTY_SETTINGS)[Difficulty]["patternWeights"]
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { END_DELAY, HOLD_TICK_INTERVAL, type GameStats, type Note } from "@/lib/game-config"
+import { GameEngine } from "@/lib/game-engine"
+import type { JudgeEvent } from "@/lib/judge"
+
+const createNote = (id: number, lane: number, startTime: number, endTime?: number): Note => ({
+  id,
+  lane,
+  startTime,
+  endTime,
+  currentY: 0,
+  hit: false,
+})
+
+// 단타, 롱노트(틱 4번), 놓칠 단타
+const NOTES = [createNote(0, 0, 1000), createNote(1, 1, 2000, 3000), createNote(2, 2, 4000)]
+
+// 엔진의 모든 이벤트를 모아 둔다
+function record(engine: GameEngine) {
+  const judgments: JudgeEvent[] = []
+  const stats: GameStats[] = []
+  const finishes: GameStats[] = []
+  engine.on("judgment", (event) => judgments.push(event))
+  engine.on("stats", (event) => stats.push(event))
+  engine.on("finish", (event) => finishes.push(event))
+  return { judgments, stats, finishes }
+}
+
+describe("GameEngine", () => {
+  test("누름과 뗌을 판정하고 지나간 노트는 MISS로 처리한다", () => {
+    const engine = new GameEngine(NOTES, "standard")
+    const events = record(engine)
+
+    const tap = engine.press(0, 1005)
+    assert.deepEqual(tap, [{ noteId: 0, lane: 0, part: "tap", judgment: "marvelous", time: 1005 }])
+    engine.release(0, 1040)
+
+    assert.equal(engine.press(1, 2030)[0].judgment, "perfect")
+    engine.tick(2600)
+    assert.equal(engine.stats.combo, 2 + Math.floor(600 / HOLD_TICK_INTERVAL))
+    assert.deepEqual(engine.release(1, 3000), [{ noteId: 1, lane: 1, part: "tail", judgment: "marvelous", time: 3000 }])
+
+    engine.tick(5000)
+    assert.deepEqual(
+      events.judgments.map(({ noteId, part, judgment }) => [noteId, part, judgment]),
+      [
+        [0, "tap", "marvelous"],
+        [1, "head", "perfect"],
+        [1, "tail", "marvelous"],
+        [2, "tap", "miss"],
+      ],
+    )
+    assert.deepEqual(engine.stats.judgments, { marvelous: 2, perfect: 1, great: 0, good: 0, bad: 0, miss: 1 })
+    assert.equal(engine.stats.combo, 0)
+    assert.equal(engine.stats.maxCombo, 3 + (3000 - 2000) / HOLD_TICK_INTERVAL)
+    assert.equal(events.stats.at(-1), engine.stats)
+    assert.deepEqual(engine.recordedInputs, [
+      [1005, 0, 1],
+      [1040, 0, 0],
+      [2030, 1, 1],
+      [3000, 1, 0],
+    ])
+  })
+
+  test("모든 노트를 판정하고 끝 시각이 지나면 한 번만 finish를 알린다", () => {
+    const engine = new GameEngine(NOTES, "standard")
+    const events = record(engine)
+
+    engine.tick(4000 + END_DELAY)
+    assert.equal(events.finishes.length, 0)
+    engine.tick(4000 + END_DELAY + 1)
+    engine.tick(10000)
+    assert.equal(events.finishes.length, 1)
+    assert.equal(events.finishes[0], engine.stats)
+    assert.equal(engine.stats.judgments.miss, 4)
+    assert.ok(engine.isFinished)
+  })
+
+  test("노트가 없는 채보도 끝 시각이 지나면 끝난다", () => {
+    const engine = new GameEngine([], "standard")
+    const events = record(engine)
+
+    engine.tick(END_DELAY + 1)
+    assert.equal(events.finishes.length, 1)
+  })
+
+  test("같은 입력을 넣으면 같은 결과가 나온다", () => {
+    const play = () => {
+      const engine = new GameEngine(NOTES, "classic")
+      engine.press(0, 980)
+      engine.press(1, 2050)
+      engine.release(1, 2900)
+      engine.press(2, 4100)
+      engine.tick(Infinity)
+      return engine.stats
+    }
+    assert.deepEqual(play(), play())
+  })
+})
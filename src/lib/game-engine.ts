@@ -0,0 +1,156 @@
+import { DEFAULT_RULESET, END_DELAY, type GameStats, type Note, type RulesetId } from "@/lib/game-config"
+import { DEFAULT_GAUGE_SETTINGS, type GaugeSettings, type GaugeState } from "@/lib/gauge"
+import {
+  advanceJudge,
+  createJudgeState,
+  getLastNoteTime,
+  isJudgeFailed,
+  isJudgeFinished,
+  pressJudge,
+  releaseJudge,
+  type JudgeEvent,
+  type JudgeResult,
+  type JudgeState,
+} from "@/lib/judge"
+import type { ReplayInput } from "@/lib/replay"
+
+// 게임 엔진이 알리는 이벤트
+export interface GameEngineEvents {
+  judgment: JudgeEvent // 노트(또는 롱노트 머리/꼬리) 하나의 판정
+  stats: GameStats // 점수, 콤보, 판정 수가 바뀜
+  gauge: GaugeState // 게이지가 바뀜
+  finish: GameStats // 모든 노트를 판정하고 endTime이 지남, 또는 게이지가 비어 실패
+}
+
+type Listener<T> = (payload: T) => void
+
+// 화면이나 오디오와 무관한 게임 진행 (판정, 점수, 입력 기록)
+// 시각은 모두 판정 기준 곡 시간(ms)이며, 같은 입력을 넣으면 언제나 같은 결과가 나온다
+export class GameEngine {
+  private state: JudgeState
+  private inputs: ReplayInput[] = []
+  private finished = false
+  private finishTime: number
+  private listeners: { [K in keyof GameEngineEvents]: Set<Listener<GameEngineEvents[K]>> } = {
+    judgment: new Set(),
+    stats: new Set(),
+    gauge: new Set(),
+    finish: new Set(),
+  }
+
+  constructor(
+    notes: Note[] = [],
+    rulesetId: RulesetId = DEFAULT_RULESET,
+    gauge: GaugeSettings = DEFAULT_GAUGE_SETTINGS,
+  ) {
+    this.state = createJudgeState(notes, rulesetId, gauge)
+    this.finishTime = getLastNoteTime(notes) + END_DELAY
+  }
+
+  // 새 채보로 처음부터 (구독은 유지, 판정 규칙이나 게이지를 주지 않으면 지금 설정 그대로)
+  // endTime: 모든 노트를 판정한 뒤 끝나는 곡 시간 (기본은 마지막 노트 후 END_DELAY)
+  load(
+    notes: Note[],
+    rulesetId: RulesetId = this.state.stats.ruleset,
+    gauge: GaugeSettings = { type: this.state.gauge.type, noFail: this.state.noFail },
+    endTime = getLastNoteTime(notes) + END_DELAY,
+  ) {
+    this.state = createJudgeState(notes, rulesetId, gauge)
+    this.finishTime = endTime
+    this.inputs = []
+    this.finished = false
+    this.emit("stats", this.state.stats)
+    this.emit("gauge", this.state.gauge)
+  }
+
+  // 판정 상태의 노트 (시작 시간 순, 판정 여부와 롱노트 누름 상태 포함)
+  get notes() {
+    return this.state.notes
+  }
+
+  get stats() {
+    return this.state.stats
+  }
+
+  get ruleset() {
+    return this.state.stats.ruleset
+  }
+
+  get gauge() {
+    return this.state.gauge
+  }
+
+  // 게이지가 비어 도중에 끝났는지
+  get isFailed() {
+    return isJudgeFailed(this.state)
+  }
+
+  // 마지막으로 처리한 곡 시간
+  get time() {
+    return this.state.time
+  }
+
+  // 판정에 쓰인 시각으로 기록한 입력 (리플레이용)
+  get recordedInputs(): readonly ReplayInput[] {
+    return this.inputs
+  }
+
+  get isFinished() {
+    return this.finished
+  }
+
+  // 결과 화면으로 넘어가는 곡 시간
+  get endTime() {
+    return this.finishTime
+  }
+
+  on<K extends keyof GameEngineEvents>(type: K, listener: Listener<GameEngineEvents[K]>) {
+    const listeners = this.listeners[type] as Set<Listener<GameEngineEvents[K]>>
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  // 레인 누름 (늦게 도착한 입력은 이미 처리한 시각에 들어온 것으로 판정)
+  // 반환값은 이 입력으로 일어난 판정 (judgment 이벤트로도 알린다)
+  press(lane: number, time: number): JudgeEvent[] {
+    const result = pressJudge(this.state, lane, time)
+    this.inputs.push([result.state.time, lane, 1])
+    return this.apply(result)
+  }
+
+  release(lane: number, time: number): JudgeEvent[] {
+    const result = releaseJudge(this.state, lane, time)
+    this.inputs.push([result.state.time, lane, 0])
+    return this.apply(result)
+  }
+
+  // 곡 시간 진행 (지나간 노트 MISS, 롱노트 홀드 틱, 끝났는지 확인)
+  tick(time: number): JudgeEvent[] {
+    const events = this.apply(advanceJudge(this.state, time))
+    if (!this.finished && (this.isFailed || (isJudgeFinished(this.state) && time > this.endTime))) {
+      this.finished = true
+      this.emit("finish", this.state.stats)
+    }
+    return events
+  }
+
+  private apply({ state, events }: JudgeResult) {
+    const prev = this.state
+    this.state = state
+    events.forEach((event) => this.emit("judgment", event))
+    if (state.stats !== prev.stats) {
+      this.emit("stats", state.stats)
+    }
+    if (state.gauge !== prev.gauge) {
+      this.emit("gauge", state.gauge)
+    }
+    return events
+  }
+
+  private emit<K extends keyof GameEngineEvents>(type: K, payload: GameEngineEvents[K]) {
+    const listeners = this.listeners[type] as Set<Listener<GameEngineEvents[K]>>
+    listeners.forEach((listener) => listener(payload))
+  }
+}
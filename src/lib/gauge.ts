@@ -0,0 +1,100 @@
+import type { Judgment, Ruleset } from "@/lib/game-config"
+
+// 게이지 종류
+// normal: 끝났을 때 기준 이상이면 클리어, easy: 감소량이 적고 기준이 낮다, hard: 0%가 되면 바로 실패
+export type GaugeType = "normal" | "easy" | "hard"
+
+export interface GaugeConfig {
+  name: string
+  description: string
+  initial: number // 시작 값 (%)
+  clearAt: number // 끝났을 때 이 값 이상이면 클리어 (%)
+  recoveryRate: number // 판정 규칙의 회복량 배율
+  damageRate: number // 판정 규칙의 감소량 배율
+  failOnEmpty: boolean // 0%가 되면 바로 실패
+  color: string // 게이지 막대 색 (Tailwind 배경 클래스)
+}
+
+export const GAUGE_TYPES: Record<GaugeType, GaugeConfig> = {
+  normal: {
+    name: "노멀",
+    description: "끝났을 때 80% 이상이면 클리어",
+    initial: 20,
+    clearAt: 80,
+    recoveryRate: 1,
+    damageRate: 1,
+    failOnEmpty: false,
+    color: "bg-cyan-400",
+  },
+  easy: {
+    name: "이지",
+    description: "끝났을 때 60% 이상이면 클리어, 감소량이 적음",
+    initial: 20,
+    clearAt: 60,
+    recoveryRate: 1,
+    damageRate: 0.6,
+    failOnEmpty: false,
+    color: "bg-green-400",
+  },
+  hard: {
+    name: "하드",
+    description: "100%에서 시작, 0%가 되면 바로 실패",
+    initial: 100,
+    clearAt: 0,
+    recoveryRate: 0.3,
+    damageRate: 1.5,
+    failOnEmpty: true,
+    color: "bg-red-500",
+  },
+}
+
+export const DEFAULT_GAUGE: GaugeType = "normal"
+
+// 최고 판정만 나왔을 때 채보 전체에서 회복하는 양 (%)
+// (회복량을 채보의 판정 수로 나누어 짧은 채보와 긴 채보의 클리어 난이도를 맞춘다)
+const RECOVERY_TOTAL = 200
+
+export interface GaugeState {
+  type: GaugeType
+  value: number // 0~100 (%)
+  failed: boolean // 하드 게이지가 0%가 된 적이 있음
+}
+
+// 게이지 설정 (실패 없음이면 게이지가 비어도 끝까지 플레이)
+export interface GaugeSettings {
+  type: GaugeType
+  noFail: boolean
+}
+
+export const DEFAULT_GAUGE_SETTINGS: GaugeSettings = { type: DEFAULT_GAUGE, noFail: false }
+
+export function createGaugeState(type: GaugeType): GaugeState {
+  return { type, value: GAUGE_TYPES[type].initial, failed: false }
+}
+
+// 판정 하나를 게이지에 반영 (totalJudgments: 채보 전체의 판정 수)
+export function applyGauge(gauge: GaugeState, judgment: Judgment, ruleset: Ruleset, totalJudgments: number): GaugeState {
+  const config = GAUGE_TYPES[gauge.type]
+  const amount =
+    judgment === "miss" ? ruleset.missGauge : (ruleset.tiers.find((tier) => tier.judgment === judgment)?.gauge ?? 0)
+  const change =
+    amount > 0
+      ? ((amount * RECOVERY_TOTAL) / Math.max(1, totalJudgments)) * config.recoveryRate
+      : amount * config.damageRate
+  const value = Math.max(0, Math.min(100, gauge.value + change))
+  return { ...gauge, value, failed: gauge.failed || (config.failOnEmpty && value <= 0) }
+}
+
+// 끝났을 때 클리어인지
+export function isGaugeCleared(gauge: GaugeState) {
+  return !gauge.failed && gauge.value >= GAUGE_TYPES[gauge.type].clearAt
+}
+
+// 저장된 게이지 결과 검증
+export function parseGaugeState(input: unknown): GaugeState | null {
+  if (typeof input !== "object" || input === null) return null
+  const { type, value, failed } = input as Partial<Record<keyof GaugeState, unknown>>
+  if (typeof type !== "string" || !Object.hasOwn(GAUGE_TYPES, type)) return null
+  if (typeof value !== "number" || !Number.isFinite(value) || typeof failed !== "boolean") return null
+  return { type: type as GaugeType, value: Math.max(0, Math.min(100, value)), failed }
+}
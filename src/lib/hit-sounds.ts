@@ -0,0 +1,105 @@
+import type { AudioEngine } from "@/lib/audio-engine"
+import type { HitJudgment } from "@/lib/game-config"
+
+// 기본 타격음 (판정 없는 입력), 판정별 효과음, 놓친 노트 알림음
+export type HitSoundKind = "hit" | "perfect" | "good" | "miss"
+
+// 판정 단계별 효과음 (정확한 판정은 밝은 소리, 나머지는 부드러운 소리)
+export const JUDGMENT_SOUNDS: Record<HitJudgment, HitSoundKind> = {
+  marvelous: "perfect",
+  perfect: "perfect",
+  great: "good",
+  good: "good",
+  bad: "good",
+}
+
+// 짧은 효과음을 직접 합성 (파일 없이 바로 쓸 수 있도록)
+const synthesize = (context: BaseAudioContext, duration: number, sample: (t: number) => number) => {
+  const length = Math.ceil(duration * context.sampleRate)
+  const buffer = context.createBuffer(1, length, context.sampleRate)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < length; i++) {
+    data[i] = sample(i / context.sampleRate)
+  }
+  return buffer
+}
+
+const sine = (frequency: number, t: number) => Math.sin(2 * Math.PI * frequency * t)
+
+export function createHitSamples(context: BaseAudioContext): Record<HitSoundKind, AudioBuffer> {
+  return {
+    // 짧은 잡음 + 높은 클릭
+    hit: synthesize(context, 0.05, (t) => {
+      const decay = Math.exp(-t * 90)
+      return ((Math.random() * 2 - 1) * 0.35 + sine(2000, t) * 0.4) * decay
+    }),
+    // 밝은 두 음 (옥타브 + 5도)
+    perfect: synthesize(context, 0.14, (t) => {
+      const decay = Math.exp(-t * 30)
+      const click = (Math.random() * 2 - 1) * Math.exp(-t * 400) * 0.3
+      return (sine(1760, t) * 0.35 + sine(2640, t) * 0.2) * decay + click
+    }),
+    // 부드러운 한 음
+    good: synthesize(context, 0.1, (t) => {
+      const decay = Math.exp(-t * 40)
+      return sine(1175, t) * 0.35 * decay
+    }),
+    // 낮게 떨어지는 음
+    miss: synthesize(context, 0.16, (t) => {
+      const frequency = 180 - 400 * t
+      const decay = Math.exp(-t * 18)
+      return Math.sign(sine(frequency, t)) * 0.15 * decay
+    }),
+  }
+}
+
+// 타격음과 채보 키음 재생 (입력에 따른 소리는 hit 채널에서 즉시, 배경음은 music 채널에 예약)
+export class HitSoundPlayer {
+  private samples: Record<HitSoundKind, AudioBuffer> | null = null
+  private keysounds = new Map<string, AudioBuffer>()
+
+  constructor(private readonly audioEngine: AudioEngine) {}
+
+  play(kind: HitSoundKind) {
+    if (!this.samples) {
+      this.samples = createHitSamples(this.audioEngine.getContext())
+    }
+    this.audioEngine.playBuffer(this.samples[kind], "hit")
+  }
+
+  // 키음 재생 (불러온 키음이 없으면 false)
+  playKeysound(id: string) {
+    const buffer = this.keysounds.get(id)
+    if (!buffer) return false
+    this.audioEngine.playBuffer(buffer, "hit")
+    return true
+  }
+
+  // 배경음 예약 (곡 시작 후 호출, 불러온 키음이 없으면 무시)
+  scheduleKeysound(id: string, songTime: number) {
+    const buffer = this.keysounds.get(id)
+    if (buffer) this.audioEngine.scheduleBuffer(buffer, songTime, "music")
+  }
+
+  // 채보의 키음 불러오기 (키음 ID → 파일, 불러오지 못한 키음 ID 목록을 돌려준다)
+  async loadKeysounds(files: Record<string, string>, resolveUrl: (file: string) => string): Promise<string[]> {
+    this.keysounds.clear()
+    const entries = Object.entries(files)
+    const results = await Promise.allSettled(entries.map(([, file]) => this.audioEngine.decode(resolveUrl(file))))
+
+    const failed: string[] = []
+    results.forEach((result, index) => {
+      const id = entries[index][0]
+      if (result.status === "fulfilled") {
+        this.keysounds.set(id, result.value)
+      } else {
+        failed.push(id)
+      }
+    })
+    return failed
+  }
+
+  clearKeysounds() {
+    this.keysounds.clear()
+  }
+}
@@ -0,0 +1,224 @@
+export type InputSource = "keyboard" | "gamepad" | "pointer"
+
+export interface LaneInputEvent {
+  lane: number
+  timestamp: number // performance.now() 기준 입력 시각
+  source: InputSource
+}
+
+export interface LaneInputHandlers {
+  onPress: (event: LaneInputEvent) => void
+  onRelease: (event: LaneInputEvent) => void
+}
+
+export interface InputConfig {
+  laneCount: number
+  keyMap: Record<string, number> // KeyboardEvent.code → 레인
+  gamepadLanes: number[][] // 레인 → 게임패드 버튼 번호 목록
+}
+
+// 버튼을 이만큼 눌러야 눌린 것으로 본다 (아날로그 트리거)
+const GAMEPAD_PRESS_THRESHOLD = 0.5
+
+// 키보드, 게임패드, 포인터(터치) 입력을 레인 누름/뗌 이벤트로 합치는 입력 관리자
+// 한 레인을 여러 입력이 동시에 누르고 있으면 처음 누를 때와 마지막으로 뗄 때만 이벤트가 발생한다
+export class InputManager {
+  private config: InputConfig = { laneCount: 0, keyMap: {}, gamepadLanes: [] }
+  private handlers: LaneInputHandlers | null = null
+  // 레인별로 누르고 있는 입력 ID (예: key:KeyA, pad:0:14, pointer:3)
+  private laneHolders = new Map<number, Set<string>>()
+  private pointerLanes = new Map<number, number>()
+  private gamepadButtonStates = new Map<number, boolean[]>()
+  private pointerTarget: HTMLElement | null = null
+  private pollFrame = 0
+  private attached = false
+
+  setHandlers(handlers: LaneInputHandlers | null) {
+    this.handlers = handlers
+  }
+
+  // 설정이 바뀌면 누르고 있던 입력은 모두 뗀 것으로 처리
+  configure(config: InputConfig) {
+    this.releaseAll(performance.now())
+    this.config = config
+  }
+
+  attach() {
+    if (this.attached) return
+    this.attached = true
+    window.addEventListener("keydown", this.handleKeyDown)
+    window.addEventListener("keyup", this.handleKeyUp)
+    window.addEventListener("blur", this.handleBlur)
+    this.pollFrame = requestAnimationFrame(this.pollGamepads)
+  }
+
+  detach() {
+    if (!this.attached) return
+    this.attached = false
+    window.removeEventListener("keydown", this.handleKeyDown)
+    window.removeEventListener("keyup", this.handleKeyUp)
+    window.removeEventListener("blur", this.handleBlur)
+    cancelAnimationFrame(this.pollFrame)
+    this.setPointerTarget(null)
+    this.releaseAll(performance.now())
+  }
+
+  // 터치/마우스 입력을 받을 게임 영역 (레인은 가로 위치로 결정)
+  setPointerTarget(element: HTMLElement | null) {
+    if (this.pointerTarget === element) return
+
+    if (this.pointerTarget) {
+      this.pointerTarget.removeEventListener("pointerdown", this.handlePointerDown)
+      this.pointerTarget.removeEventListener("pointermove", this.handlePointerMove)
+      this.pointerTarget.removeEventListener("pointerup", this.handlePointerUp)
+      this.pointerTarget.removeEventListener("pointercancel", this.handlePointerUp)
+      this.pointerLanes.forEach((_, pointerId) => this.releasePointer(pointerId, performance.now()))
+    }
+
+    this.pointerTarget = element
+    if (element) {
+      element.addEventListener("pointerdown", this.handlePointerDown)
+      element.addEventListener("pointermove", this.handlePointerMove)
+      element.addEventListener("pointerup", this.handlePointerUp)
+      element.addEventListener("pointercancel", this.handlePointerUp)
+    }
+  }
+
+  isLaneHeld(lane: number) {
+    return (this.laneHolders.get(lane)?.size ?? 0) > 0
+  }
+
+  private press(lane: number, holderId: string, timestamp: number, source: InputSource) {
+    if (lane < 0 || lane >= this.config.laneCount) return
+
+    const holders = this.laneHolders.get(lane) ?? new Set<string>()
+    if (holders.has(holderId)) return
+    holders.add(holderId)
+    this.laneHolders.set(lane, holders)
+
+    if (holders.size === 1) {
+      this.handlers?.onPress({ lane, timestamp, source })
+    }
+  }
+
+  private release(lane: number, holderId: string, timestamp: number, source: InputSource) {
+    const holders = this.laneHolders.get(lane)
+    if (!holders || !holders.delete(holderId)) return
+
+    if (holders.size === 0) {
+      this.handlers?.onRelease({ lane, timestamp, source })
+    }
+  }
+
+  private releaseAll(timestamp: number) {
+    this.laneHolders.forEach((holders, lane) => {
+      if (holders.size > 0) {
+        holders.clear()
+        this.handlers?.onRelease({ lane, timestamp, source: "keyboard" })
+      }
+    })
+    this.pointerLanes.clear()
+    this.gamepadButtonStates.clear()
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat) return
+    const lane = this.config.keyMap[event.code]
+    if (lane !== undefined) {
+      this.press(lane, `key:${event.code}`, event.timeStamp, "keyboard")
+    }
+  }
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    const lane = this.config.keyMap[event.code]
+    if (lane !== undefined) {
+      this.release(lane, `key:${event.code}`, event.timeStamp, "keyboard")
+    }
+  }
+
+  private handleBlur = () => {
+    this.releaseAll(performance.now())
+  }
+
+  private getPointerLane(event: PointerEvent) {
+    if (!this.pointerTarget) return -1
+    const rect = this.pointerTarget.getBoundingClientRect()
+    return Math.floor(((event.clientX - rect.left) / rect.width) * this.config.laneCount)
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    event.preventDefault()
+    const lane = this.getPointerLane(event)
+    if (lane < 0 || lane >= this.config.laneCount) return
+
+    this.pointerTarget?.setPointerCapture(event.pointerId)
+    this.pointerLanes.set(event.pointerId, lane)
+    this.press(lane, `pointer:${event.pointerId}`, event.timeStamp, "pointer")
+  }
+
+  // 누른 채로 옆 레인으로 미끄러지면 레인을 옮긴다
+  private handlePointerMove = (event: PointerEvent) => {
+    const currentLane = this.pointerLanes.get(event.pointerId)
+    if (currentLane === undefined) return
+
+    const lane = this.getPointerLane(event)
+    if (lane === currentLane || lane < 0 || lane >= this.config.laneCount) return
+
+    this.release(currentLane, `pointer:${event.pointerId}`, event.timeStamp, "pointer")
+    this.pointerLanes.set(event.pointerId, lane)
+    this.press(lane, `pointer:${event.pointerId}`, event.timeStamp, "pointer")
+  }
+
+  private handlePointerUp = (event: PointerEvent) => {
+    this.releasePointer(event.pointerId, event.timeStamp)
+  }
+
+  private releasePointer(pointerId: number, timestamp: number) {
+    const lane = this.pointerLanes.get(pointerId)
+    if (lane === undefined) return
+    this.pointerLanes.delete(pointerId)
+    this.release(lane, `pointer:${pointerId}`, timestamp, "pointer")
+  }
+
+  // Gamepad API는 이벤트가 없으므로 매 프레임 버튼 상태를 비교한다
+  private pollGamepads = () => {
+    if (!this.attached) return
+
+    const gamepads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : []
+    const now = performance.now()
+    for (const gamepad of gamepads) {
+      if (!gamepad) continue
+
+      const previous = this.gamepadButtonStates.get(gamepad.index) ?? []
+      const current = gamepad.buttons.map((button) => button.pressed || button.value > GAMEPAD_PRESS_THRESHOLD)
+      this.gamepadButtonStates.set(gamepad.index, current)
+
+      current.forEach((pressed, button) => {
+        if (pressed === (previous[button] ?? false)) return
+        this.config.gamepadLanes.forEach((buttons, lane) => {
+          if (!buttons.includes(button)) return
+          const holderId = `pad:${gamepad.index}:${button}`
+          if (pressed) {
+            this.press(lane, holderId, now, "gamepad")
+          } else {
+            this.release(lane, holderId, now, "gamepad")
+          }
+        })
+      })
+    }
+
+    this.pollFrame = requestAnimationFrame(this.pollGamepads)
+  }
+}
+
+// 현재 눌려 있는 게임패드 버튼 번호 목록 (버튼 설정 화면용)
+export function getPressedGamepadButtons(): number[] {
+  if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return []
+  const pressed = new Set<number>()
+  for (const gamepad of navigator.getGamepads()) {
+    gamepad?.buttons.forEach((button, index) => {
+      if (button.pressed || button.value > GAMEPAD_PRESS_THRESHOLD) pressed.add(index)
+    })
+  }
+  return [...pressed]
+}
@@ -0,0 +1,256 @@
+import {
+  DEFAULT_RULESET,
+  HOLD_TICK_INTERVAL,
+  getMissWindow,
+  getRuleset,
+  judgeTiming,
+  type GameStats,
+  type Judgment,
+  type Note,
+  type RulesetId,
+} from "@/lib/game-config"
+import {
+  DEFAULT_GAUGE_SETTINGS,
+  applyGauge,
+  createGaugeState,
+  type GaugeSettings,
+  type GaugeState,
+} from "@/lib/gauge"
+import { applyJudgment, createInitialStats } from "@/lib/stats"
+
+// 판정 진행 상태 (플레이와 리플레이가 같은 규칙으로 갱신한다)
+// 한 프레임의 비용이 채보 전체 노트 수에 비례하지 않도록 notes 배열은 판정하면서 그 자리에서 고친다
+// (노트 객체는 새로 만들어 바꿔 넣으며, 갱신한 뒤에는 이전 상태를 다시 쓰지 않는다)
+export interface JudgeState {
+  notes: Note[] // 시작 시간 순
+  cursor: number // 아직 판정이 끝나지 않은 첫 노트의 위치 (앞의 노트는 모두 판정됨)
+  remaining: number // 판정이 끝나지 않은 노트 수
+  stats: GameStats
+  gauge: GaugeState
+  noFail: boolean // 게이지가 비어도 멈추지 않음
+  time: number // 마지막으로 처리한 곡 시간 (ms, 실패했으면 실패한 시각)
+}
+
+// 노트의 어느 부분에 대한 판정인지 (단타, 롱노트 머리, 롱노트 꼬리)
+export type NotePart = "tap" | "head" | "tail"
+
+export interface JudgeEvent {
+  noteId: number
+  lane: number
+  part: NotePart
+  judgment: Judgment
+  time: number
+}
+
+export interface JudgeResult {
+  state: JudgeState
+  events: JudgeEvent[]
+}
+
+// 시간이 지나면 일어나는 일 (같은 시각이면 홀드 틱을 먼저 처리)
+interface TimedEvent {
+  time: number
+  index: number
+  kind: "tick" | "holdEnd" | "miss"
+}
+
+const TIMED_EVENT_ORDER = { tick: 0, holdEnd: 1, miss: 2 }
+
+// 판정 규칙은 결과 기록(stats.ruleset)에 함께 담긴다
+export function createJudgeState(
+  notes: Note[],
+  rulesetId: RulesetId = DEFAULT_RULESET,
+  gauge: GaugeSettings = DEFAULT_GAUGE_SETTINGS,
+): JudgeState {
+  const sorted = [...notes]
+    .sort((a, b) => a.startTime - b.startTime || a.lane - b.lane)
+    .map((note) => ({ ...note, hit: false, holding: false, holdTicks: 0 }))
+  const totalJudgments = notes.reduce((sum, note) => sum + (note.endTime !== undefined ? 2 : 1), 0)
+  return {
+    notes: sorted,
+    cursor: 0,
+    remaining: sorted.length,
+    stats: createInitialStats(rulesetId, totalJudgments),
+    gauge: createGaugeState(gauge.type),
+    noFail: gauge.noFail,
+    time: -Infinity,
+  }
+}
+
+// 게이지가 비어 플레이가 멈췄는지 (이후 입력과 시간 진행은 무시한다)
+export function isJudgeFailed(state: JudgeState) {
+  return state.gauge.failed && !state.noFail
+}
+
+// 판정 하나를 점수와 게이지에 반영
+const applyJudgeResult = (state: JudgeState, judgment: Judgment): JudgeState => ({
+  ...state,
+  stats: applyJudgment(state.stats, judgment),
+  gauge: applyGauge(state.gauge, judgment, getRuleset(state.stats.ruleset), state.stats.totalJudgments),
+})
+
+// 노트 판정 끝 (판정이 끝나지 않은 첫 노트 위치와 남은 노트 수 갱신)
+const completeNote = (state: JudgeState, index: number, note: Note): JudgeState => {
+  const { notes } = state
+  notes[index] = { ...note, hit: true, holding: false }
+  let cursor = state.cursor
+  while (cursor < notes.length && notes[cursor].hit) cursor++
+  return { ...state, cursor, remaining: state.remaining - 1 }
+}
+
+// 곡 시간을 time까지 진행 (홀드 틱, 롱노트 자동 완료, 지나간 노트 MISS)
+// 이벤트를 시각 순서로 처리하므로 몇 번에 나누어 진행해도 결과가 같다
+export function advanceJudge(state: JudgeState, time: number): JudgeResult {
+  if (time <= state.time || isJudgeFailed(state)) return { state, events: [] }
+
+  const ruleset = getRuleset(state.stats.ruleset)
+  const missWindow = getMissWindow(ruleset)
+  const timeline: TimedEvent[] = []
+  for (let index = state.cursor; index < state.notes.length; index++) {
+    const note = state.notes[index]
+    // 노트는 시작 시간 순이므로 아직 시작하지 않은 노트부터는 볼 필요가 없다
+    if (note.startTime > time) break
+    if (note.hit) continue
+
+    if (note.holding && note.endTime !== undefined) {
+      const lastTick = Math.floor((Math.min(time, note.endTime) - note.startTime) / HOLD_TICK_INTERVAL)
+      for (let tick = (note.holdTicks ?? 0) + 1; tick <= lastTick; tick++) {
+        timeline.push({ time: note.startTime + tick * HOLD_TICK_INTERVAL, index, kind: "tick" })
+      }
+      // 판정 범위가 지나도록 누르고 있으면 늦게 뗀 것으로 처리
+      if (time - note.endTime > missWindow) {
+        timeline.push({ time: note.endTime + missWindow, index, kind: "holdEnd" })
+      }
+    } else if (time - note.startTime > missWindow) {
+      timeline.push({ time: note.startTime + missWindow, index, kind: "miss" })
+    }
+  }
+
+  if (timeline.length === 0) return { state: { ...state, time }, events: [] }
+
+  timeline.sort(
+    (a, b) => a.time - b.time || TIMED_EVENT_ORDER[a.kind] - TIMED_EVENT_ORDER[b.kind] || a.index - b.index,
+  )
+
+  const { notes } = state
+  let next = state
+  const events: JudgeEvent[] = []
+  const emit = (note: Note, part: NotePart, judgment: Judgment, eventTime: number) => {
+    next = applyJudgeResult(next, judgment)
+    events.push({ noteId: note.id, lane: note.lane, part, judgment, time: eventTime })
+  }
+
+  for (const { time: eventTime, index, kind } of timeline) {
+    const note = notes[index]
+    if (kind === "tick") {
+      // 누르고 있는 동안 홀드 틱마다 콤보 증가
+      const { stats } = next
+      next = { ...next, stats: { ...stats, combo: stats.combo + 1, maxCombo: Math.max(stats.maxCombo, stats.combo + 1) } }
+      notes[index] = { ...note, holdTicks: (note.holdTicks ?? 0) + 1 }
+    } else if (kind === "holdEnd") {
+      next = completeNote(next, index, note)
+      emit(note, "tail", ruleset.lateRelease, eventTime)
+    } else {
+      // 롱노트는 머리와 꼬리 모두 MISS
+      next = completeNote(next, index, note)
+      if (note.endTime !== undefined) {
+        emit(note, "head", "miss", eventTime)
+        emit(note, "tail", "miss", eventTime)
+      } else {
+        emit(note, "tap", "miss", eventTime)
+      }
+    }
+    // 게이지가 비면 그 시각에서 멈춘다 (몇 번에 나누어 진행해도 같은 곳에서 멈추도록)
+    if (isJudgeFailed(next)) {
+      return { state: { ...next, time: eventTime }, events }
+    }
+  }
+
+  return { state: { ...next, time }, events }
+}
+
+// 이미 처리한 시각보다 늦게 도착한 입력은 처리한 시각에 들어온 것으로 본다
+// (판정에 쓰인 시각은 결과 상태의 time이며, 리플레이에는 이 값을 기록한다)
+const getInputTime = (state: JudgeState, time: number) => Math.max(time, state.time)
+
+// 레인을 누름 (판정 범위 안에서 입력 시각과 가장 가까운 노트를 판정)
+export function pressJudge(state: JudgeState, lane: number, inputTime: number): JudgeResult {
+  const time = getInputTime(state, inputTime)
+  const advanced = advanceJudge(state, time)
+  if (isJudgeFailed(advanced.state)) return advanced
+  const { notes, stats, cursor } = advanced.state
+  const ruleset = getRuleset(stats.ruleset)
+  const missWindow = getMissWindow(ruleset)
+
+  // 판정 범위 안의 노트만 본다 (범위보다 이른 노트는 진행하면서 이미 판정됨)
+  let closestIndex = -1
+  for (let index = cursor; index < notes.length; index++) {
+    const note = notes[index]
+    if (note.startTime - time > missWindow) break
+    if (note.lane !== lane || note.hit || note.holding || time - note.startTime > missWindow) continue
+    if (closestIndex === -1 || Math.abs(time - note.startTime) < Math.abs(time - notes[closestIndex].startTime)) {
+      closestIndex = index
+    }
+  }
+  if (closestIndex === -1) return advanced
+
+  const note = notes[closestIndex]
+  const result = judgeTiming(time - note.startTime, ruleset)
+  if (!result) return advanced
+
+  // 롱노트는 머리만 판정하고 누르고 있는 상태로 전환
+  const isHold = note.endTime !== undefined
+  let next = advanced.state
+  if (isHold) {
+    notes[closestIndex] = { ...note, holding: true, holdTicks: 0 }
+  } else {
+    next = completeNote(next, closestIndex, note)
+  }
+
+  return {
+    state: applyJudgeResult(next, result),
+    events: [
+      ...advanced.events,
+      { noteId: note.id, lane, part: isHold ? "head" : "tap", judgment: result, time },
+    ],
+  }
+}
+
+// 레인을 뗌 (누르고 있던 롱노트의 꼬리 판정, 판정 범위보다 일찍 떼면 MISS)
+export function releaseJudge(state: JudgeState, lane: number, inputTime: number): JudgeResult {
+  const time = getInputTime(state, inputTime)
+  const advanced = advanceJudge(state, time)
+  if (isJudgeFailed(advanced.state)) return advanced
+  const { notes, stats, cursor } = advanced.state
+  const ruleset = getRuleset(stats.ruleset)
+  const missWindow = getMissWindow(ruleset)
+
+  // 누르고 있는 롱노트는 판정 범위의 늦은 끝보다 먼저 시작한다 (일찍 누른 머리 포함)
+  let index = -1
+  for (let candidate = cursor; candidate < notes.length && notes[candidate].startTime - time <= missWindow; candidate++) {
+    const { lane: noteLane, holding, hit } = notes[candidate]
+    if (noteLane === lane && holding && !hit) {
+      index = candidate
+      break
+    }
+  }
+  const note = notes[index]
+  if (!note || note.endTime === undefined) return advanced
+
+  const result = judgeTiming(time - note.endTime, ruleset) ?? "miss"
+
+  return {
+    state: applyJudgeResult(completeNote(advanced.state, index, note), result),
+    events: [...advanced.events, { noteId: note.id, lane, part: "tail", judgment: result, time }],
+  }
+}
+
+// 모든 노트가 판정되었는지 (노트가 없는 채보는 처음부터 끝난 것으로 본다)
+export function isJudgeFinished(state: JudgeState) {
+  return state.remaining === 0
+}
+
+// 마지막 노트(롱노트는 꼬리)의 시간
+export function getLastNoteTime(notes: Note[]) {
+  return notes.reduce((last, note) => Math.max(last, note.endTime ?? note.startTime), 0)
+}
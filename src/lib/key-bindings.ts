@@ -0,0 +1,156 @@
+import { KEY_MODES, type KeyMode } from "@/lib/game-config"
+
+const STORAGE_KEY = "musicGame.keyBindings.v1"
+const GAMEPAD_STORAGE_KEY = "musicGame.gamepadBindings.v1"
+
+// 키 모드별 레인 → 키 코드(KeyboardEvent.code) 목록
+export type KeyBindings = Record<KeyMode, string[][]>
+// 키 모드별 레인 → 게임패드 버튼 번호 목록 (Standard Gamepad 배치 기준)
+export type GamepadBindings = Record<KeyMode, number[][]>
+
+const KEY_MODE_LIST = Object.keys(KEY_MODES).map(Number) as KeyMode[]
+
+// KEY_MODES의 keyMap을 레인별 키 목록으로 변환한 기본값
+export function getDefaultLaneKeys(keyMode: KeyMode): string[][] {
+  const lanes: string[][] = Array.from({ length: keyMode }, () => [])
+  Object.entries(KEY_MODES[keyMode].keyMap).forEach(([code, lane]) => {
+    lanes[lane].push(code)
+  })
+  return lanes
+}
+
+export function getDefaultKeyBindings(): KeyBindings {
+  return Object.fromEntries(KEY_MODE_LIST.map((mode) => [mode, getDefaultLaneKeys(mode)])) as KeyBindings
+}
+
+// 게임패드 기본 배치: D-패드와 X/A/Y/B 버튼, 8키는 트리거 추가
+const DEFAULT_GAMEPAD_LANES: GamepadBindings = {
+  4: [[14, 2], [13, 0], [12, 3], [15, 1]],
+  6: [[14], [12], [15], [2], [3], [1]],
+  8: [[6], [14], [12], [15], [2], [3], [1], [7]],
+}
+
+export function getDefaultGamepadLanes(keyMode: KeyMode): number[][] {
+  return DEFAULT_GAMEPAD_LANES[keyMode].map((buttons) => [...buttons])
+}
+
+export function getDefaultGamepadBindings(): GamepadBindings {
+  return Object.fromEntries(KEY_MODE_LIST.map((mode) => [mode, getDefaultGamepadLanes(mode)])) as GamepadBindings
+}
+
+// 저장된 레인 설정 (형식이 맞지 않는 키 모드는 기본값)
+function loadLaneBindings<T extends string | number>(
+  storageKey: string,
+  defaults: Record<KeyMode, T[][]>,
+  itemType: "string" | "number",
+): Record<KeyMode, T[][]> {
+  if (typeof window === "undefined") return defaults
+
+  try {
+    const raw = window.localStorage.getItem(storageKey)
+    const saved = raw ? (JSON.parse(raw) as Partial<Record<string, unknown>>) : {}
+    KEY_MODE_LIST.forEach((mode) => {
+      const lanes = saved[mode]
+      if (
+        Array.isArray(lanes) &&
+        lanes.length === mode &&
+        lanes.every((items) => Array.isArray(items) && items.every((item) => typeof item === itemType))
+      ) {
+        defaults[mode] = lanes as T[][]
+      }
+    })
+  } catch {
+    // 손상된 설정은 무시하고 기본값 사용
+  }
+  return defaults
+}
+
+function saveLaneBindings(storageKey: string, bindings: Record<KeyMode, unknown[][]>) {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(bindings))
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}
+
+export function loadKeyBindings(): KeyBindings {
+  return loadLaneBindings(STORAGE_KEY, getDefaultKeyBindings(), "string")
+}
+
+export function saveKeyBindings(bindings: KeyBindings) {
+  saveLaneBindings(STORAGE_KEY, bindings)
+}
+
+export function loadGamepadBindings(): GamepadBindings {
+  return loadLaneBindings(GAMEPAD_STORAGE_KEY, getDefaultGamepadBindings(), "number")
+}
+
+export function saveGamepadBindings(bindings: GamepadBindings) {
+  saveLaneBindings(GAMEPAD_STORAGE_KEY, bindings)
+}
+
+// 키 코드 → 레인 맵 (입력 처리용)
+export function buildKeyMap(laneKeys: string[][]): Record<string, number> {
+  const keyMap: Record<string, number> = {}
+  laneKeys.forEach((codes, lane) => {
+    codes.forEach((code) => {
+      if (keyMap[code] === undefined) keyMap[code] = lane
+    })
+  })
+  return keyMap
+}
+
+// 여러 레인에 중복으로 지정된 키 코드(또는 버튼) → 레인 목록
+export function findKeyConflicts<T extends string | number>(laneKeys: T[][]): Map<T, number[]> {
+  const lanesByCode = new Map<T, number[]>()
+  laneKeys.forEach((codes, lane) => {
+    codes.forEach((code) => lanesByCode.set(code, [...(lanesByCode.get(code) ?? []), lane]))
+  })
+  return new Map([...lanesByCode].filter(([, lanes]) => lanes.length > 1))
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Semicolon: ";",
+  Quote: "'",
+  Comma: ",",
+  Period: ".",
+  Slash: "/",
+  Backslash: "\\",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Minus: "-",
+  Equal: "=",
+  Backquote: "`",
+  Space: "Space",
+  ShiftLeft: "LShift",
+  ShiftRight: "RShift",
+  ControlLeft: "LCtrl",
+  ControlRight: "RCtrl",
+  AltLeft: "LAlt",
+  AltRight: "RAlt",
+}
+
+// 키 코드 표시용 이름 (예: KeyA → A, Digit1 → 1, Numpad4 → Num4)
+export function getKeyLabel(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code]
+  if (code.startsWith("Key")) return code.slice(3)
+  if (code.startsWith("Digit")) return code.slice(5)
+  if (code.startsWith("Numpad")) return `Num${code.slice(6)}`
+  return code
+}
+
+// 레인의 대표 키 라벨 (첫 번째 키)
+export function getLaneLabel(codes: string[] | undefined): string {
+  return codes && codes.length > 0 ? getKeyLabel(codes[0]) : "-"
+}
+
+const GAMEPAD_BUTTON_LABELS = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Back", "Start", "LS", "RS", "↑", "↓", "←", "→"]
+
+// 게임패드 버튼 표시용 이름 (Standard Gamepad 배치)
+export function getGamepadButtonLabel(button: number): string {
+  return GAMEPAD_BUTTON_LABELS[button] ?? `B${button}`
+}
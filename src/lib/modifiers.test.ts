@@ -0,0 +1,64 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { KEY_MODES, type KeyMode, type Note } from "@/lib/game-config"
+import { DEFAULT_MODIFIERS, applyLaneModifier, parseModifiers, type LaneModifier } from "@/lib/modifiers"
+import { generateNotes } from "@/lib/note-generator"
+
+const KEY_MODE_LIST = Object.keys(KEY_MODES).map(Number) as KeyMode[]
+const LANE_MODIFIERS: LaneModifier[] = ["none", "mirror", "random", "superRandom"]
+
+// 레인을 뺀 노트 (배치를 바꿔도 그대로여야 하는 부분)
+const withoutLanes = (notes: Note[]) =>
+  notes.map(({ id, startTime, endTime }) => ({ id, startTime, endTime })).sort((a, b) => a.id - b.id)
+
+describe("applyLaneModifier", () => {
+  for (const keyMode of KEY_MODE_LIST) {
+    const notes = generateNotes({ keyMode, difficulty: "hard", seed: 42 })
+    const laneCount = KEY_MODES[keyMode].keys.length
+
+    for (const lanes of LANE_MODIFIERS) {
+      test(`${keyMode}키 ${lanes}: 레인이 키 수 안에 있고 노트 시각은 그대로`, () => {
+        const placed = applyLaneModifier(notes, keyMode, lanes, 7)
+        assert.ok(placed.every((note) => Number.isInteger(note.lane) && note.lane >= 0 && note.lane < laneCount))
+        assert.deepEqual(withoutLanes(placed), withoutLanes(notes))
+      })
+    }
+
+    test(`${keyMode}키 미러를 두 번 적용하면 원래 배치`, () => {
+      const mirrored = applyLaneModifier(notes, keyMode, "mirror", 0)
+      assert.notDeepEqual(mirrored, notes)
+      assert.deepEqual(applyLaneModifier(mirrored, keyMode, "mirror", 0), notes)
+    })
+
+    for (const lanes of ["random", "superRandom"] as const) {
+      test(`${keyMode}키 ${lanes}: 같은 시드면 같은 배치`, () => {
+        assert.deepEqual(applyLaneModifier(notes, keyMode, lanes, 123), applyLaneModifier(notes, keyMode, lanes, 123))
+      })
+    }
+
+    test(`${keyMode}키 슈퍼 랜덤은 같은 레인에서 노트가 겹치지 않는다`, () => {
+      const laneEnd = new Array<number>(laneCount).fill(-Infinity)
+      applyLaneModifier(notes, keyMode, "superRandom", 99)
+        .sort((a, b) => a.startTime - b.startTime)
+        .forEach((note) => {
+          assert.ok(note.startTime > laneEnd[note.lane])
+          laneEnd[note.lane] = note.endTime ?? note.startTime
+        })
+    })
+  }
+
+  test("슈퍼 랜덤은 시드가 다르면 다른 배치", () => {
+    const notes = generateNotes({ keyMode: 8, difficulty: "hard", seed: 42 })
+    assert.notDeepEqual(applyLaneModifier(notes, 8, "superRandom", 1), applyLaneModifier(notes, 8, "superRandom", 2))
+  })
+})
+
+describe("parseModifiers", () => {
+  test("없는 레인 배치와 게이지는 기본값으로 (Object의 상속 속성 포함)", () => {
+    for (const value of ["unknown", "constructor", "toString", "__proto__"]) {
+      const parsed = parseModifiers({ ...DEFAULT_MODIFIERS, lanes: value, gauge: value })
+      assert.equal(parsed.lanes, DEFAULT_MODIFIERS.lanes)
+      assert.equal(parsed.gauge, DEFAULT_MODIFIERS.gauge)
+    }
+  })
+})
@@ -0,0 +1,163 @@
+import type { KeyMode, Note } from "@/lib/game-config"
+import { DEFAULT_GAUGE, GAUGE_TYPES, type GaugeSettings, type GaugeType } from "@/lib/gauge"
+import { MAX_SEED, createRandom, createSeed } from "@/lib/note-generator"
+
+const STORAGE_KEY = "musicGame.modifiers.v1"
+
+// 레인 배치 변경 (채보를 불러올 때 적용)
+// mirror: 좌우 반전, random: 레인 순서를 한 번 섞음, superRandom: 노트마다 비어 있는 레인에 배치
+export type LaneModifier = "none" | "mirror" | "random" | "superRandom"
+
+export interface Modifiers {
+  lanes: LaneModifier
+  hidden: boolean // 판정선 가까이에서 노트가 사라진다
+  sudden: boolean // 노트가 화면 위쪽에서 늦게 나타난다
+  laneCover: number // 위쪽 가림막 높이 (판정선까지 거리 대비 비율, 0이면 없음)
+  beatLines: boolean // 레인에 박자선과 마디선 표시 (판정과 무관)
+  autoPlay: boolean // 노트를 자동으로 처리 (기록 저장 안 함)
+  autoPlayJitter: number // 자동 플레이 입력 시각 흔들림 (표준편차 ms, 0이면 정확히)
+  gauge: GaugeType
+  noFail: boolean // 게이지가 비어도 끝까지 플레이
+}
+
+// 한 번의 플레이에 적용한 설정 (랜덤 배치를 리플레이에서 똑같이 재현하도록 시드 포함)
+export interface AppliedModifiers extends Modifiers {
+  seed: number
+}
+
+export const DEFAULT_MODIFIERS: Modifiers = {
+  lanes: "none",
+  hidden: false,
+  sudden: false,
+  laneCover: 0,
+  beatLines: false,
+  autoPlay: false,
+  autoPlayJitter: 0,
+  gauge: DEFAULT_GAUGE,
+  noFail: false,
+}
+
+export const LANE_MODIFIER_NAMES: Record<LaneModifier, string> = {
+  none: "기본",
+  mirror: "미러",
+  random: "랜덤",
+  superRandom: "슈퍼 랜덤",
+}
+
+// 가림막 최대 높이
+export const MAX_LANE_COVER = 0.7
+
+// 자동 플레이 흔들림 선택지 (ms)
+export const AUTO_PLAY_JITTERS = [0, 5, 10, 20, 40]
+
+const clampCover = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(MAX_LANE_COVER, value)) : 0
+
+// 저장된 값이나 리플레이의 값을 검증 (잘못된 항목은 기본값)
+export function parseModifiers(input: unknown): Modifiers {
+  if (typeof input !== "object" || input === null) return DEFAULT_MODIFIERS
+  const saved = input as Partial<Record<keyof Modifiers, unknown>>
+  return {
+    lanes:
+      typeof saved.lanes === "string" && Object.hasOwn(LANE_MODIFIER_NAMES, saved.lanes)
+        ? (saved.lanes as LaneModifier)
+        : DEFAULT_MODIFIERS.lanes,
+    hidden: saved.hidden === true,
+    sudden: saved.sudden === true,
+    laneCover: clampCover(saved.laneCover),
+    beatLines: saved.beatLines === true,
+    autoPlay: saved.autoPlay === true,
+    autoPlayJitter:
+      typeof saved.autoPlayJitter === "number" && AUTO_PLAY_JITTERS.includes(saved.autoPlayJitter)
+        ? saved.autoPlayJitter
+        : 0,
+    gauge:
+      typeof saved.gauge === "string" && Object.hasOwn(GAUGE_TYPES, saved.gauge)
+        ? (saved.gauge as GaugeType)
+        : DEFAULT_GAUGE,
+    noFail: saved.noFail === true,
+  }
+}
+
+export function loadModifiers(): Modifiers {
+  if (typeof window === "undefined") return DEFAULT_MODIFIERS
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    return raw ? parseModifiers(JSON.parse(raw)) : DEFAULT_MODIFIERS
+  } catch {
+    return DEFAULT_MODIFIERS
+  }
+}
+
+export function saveModifiers(modifiers: Modifiers) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(modifiers))
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}
+
+// 이번 플레이에 쓸 설정 (랜덤 배치 시드를 새로 뽑는다)
+export function createAppliedModifiers(modifiers: Modifiers): AppliedModifiers {
+  return { ...modifiers, seed: createSeed() }
+}
+
+export function parseAppliedModifiers(input: unknown): AppliedModifiers | null {
+  if (typeof input !== "object" || input === null) return null
+  const seed = (input as { seed?: unknown }).seed
+  if (typeof seed !== "number" || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return null
+  return { ...parseModifiers(input), seed }
+}
+
+// 판정에 쓰는 게이지 설정 (옵션 기록이 없으면 기본 게이지)
+export function getGaugeSettings(modifiers: Modifiers | undefined): GaugeSettings {
+  return modifiers ? { type: modifiers.gauge, noFail: modifiers.noFail } : { type: DEFAULT_GAUGE, noFail: false }
+}
+
+// 레인 배치 변경 적용 (노트 시각과 롱노트 길이는 그대로)
+export function applyLaneModifier(notes: Note[], keyMode: KeyMode, lanes: LaneModifier, seed: number): Note[] {
+  if (lanes === "none") return notes
+  if (lanes === "mirror") {
+    return notes.map((note) => ({ ...note, lane: keyMode - 1 - note.lane }))
+  }
+
+  const random = createRandom(seed)
+  if (lanes === "random") {
+    // Fisher-Yates로 레인 순서를 섞는다
+    const order = Array.from({ length: keyMode }, (_, lane) => lane)
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      const swap = order[i]
+      order[i] = order[j]
+      order[j] = swap
+    }
+    return notes.map((note) => ({ ...note, lane: order[note.lane] }))
+  }
+
+  // 시간 순으로 비어 있는 레인 중 하나에 배치
+  // (원래 채보에서 같은 시각에 걸친 노트는 키 수보다 적으므로 비어 있는 레인이 언제나 있다)
+  const laneFreeAt = new Array<number>(keyMode).fill(-Infinity)
+  return [...notes]
+    .sort((a, b) => a.startTime - b.startTime || a.lane - b.lane)
+    .map((note) => {
+      const free = laneFreeAt.flatMap((freeAt, lane) => (freeAt < note.startTime ? [lane] : []))
+      const lane = free.length > 0 ? free[Math.floor(random() * free.length)] : note.lane
+      laneFreeAt[lane] = note.endTime ?? note.startTime
+      return { ...note, lane }
+    })
+}
+
+// HUD와 기록에 표시할 짧은 이름 (적용한 것이 없으면 빈 배열, 화면 표시용인 박자선은 뺀다)
+export function describeModifiers(modifiers: Modifiers): string[] {
+  const labels: string[] = []
+  if (modifiers.lanes !== "none") labels.push(LANE_MODIFIER_NAMES[modifiers.lanes])
+  if (modifiers.hidden) labels.push("히든")
+  if (modifiers.sudden) labels.push("서든")
+  if (modifiers.laneCover > 0) labels.push(`가림막 ${Math.round(modifiers.laneCover * 100)}%`)
+  if (modifiers.gauge !== DEFAULT_GAUGE) labels.push(`${GAUGE_TYPES[modifiers.gauge].name} 게이지`)
+  if (modifiers.noFail) labels.push("실패 없음")
+  if (modifiers.autoPlay) {
+    labels.push(modifiers.autoPlayJitter > 0 ? `자동 플레이 ±${modifiers.autoPlayJitter}ms` : "자동 플레이")
+  }
+  return labels
+}
@@ -0,0 +1,196 @@
+import type { AudioAnalysis } from "@/lib/audio-analysis"
+import { CHART_FORMAT_VERSION, type Chart, type ChartNote } from "@/lib/chart"
+import { DIFFICULTY_SETTINGS, type Difficulty, type KeyMode, type Note } from "@/lib/game-config"
+import { buildPhrase, createRowPlacer, getPatterns, pickPatternFamily } from "@/lib/pattern-grammar"
+
+// 시드 범위 (32비트 부호 없는 정수)
+export const MAX_SEED = 0xffffffff
+
+// 0 이상 1 미만의 난수를 돌려주는 함수
+export type Random = () => number
+
+// 시드 기반 의사 난수 생성기 (mulberry32, 같은 시드는 항상 같은 수열)
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// 새 시드 (메뉴의 시드 바꾸기 버튼)
+export function createSeed() {
+  return Math.floor(Math.random() * (MAX_SEED + 1))
+}
+
+// 입력받은 시드 문자열 검증 (올바르지 않으면 null)
+export function parseSeed(text: string): number | null {
+  if (!/^\d+$/.test(text.trim())) return null
+  const seed = Number(text)
+  return seed <= MAX_SEED ? seed : null
+}
+
+// 랜덤 채보의 곡 ID (기록은 시드별로 구분)
+export function getRandomSongId(seed: number) {
+  return `random-${seed}`
+}
+
+export interface GenerateOptions {
+  keyMode: KeyMode
+  difficulty: Difficulty
+  seed: number
+  firstId?: number // 첫 노트 ID
+}
+
+// 랜덤 노트 생성 (같은 시드, 키 모드, 난이도면 항상 같은 노트 목록)
+// 난이도별 가중치로 패턴 계열을 골라 구절 단위로 만들고, 구절 안에서는 간격을 일정하게 유지
+export function generateNotes({ keyMode, difficulty, seed, firstId = 0 }: GenerateOptions): Note[] {
+  const random = createRandom(seed)
+  const newNotes: Note[] = []
+  const lanes = keyMode
+  const diffConfig = DIFFICULTY_SETTINGS[difficulty]
+  const hasChords = getPatterns(lanes, difficulty).some((pattern) => pattern.length >= 2)
+  const placer = createRowPlacer(lanes, difficulty)
+  // 레인별로 마지막 노트(롱노트는 꼬리)가 끝나는 시간
+  const laneFreeAt = new Array<number>(lanes).fill(0)
+  let previousRow: number[] = []
+  let id = firstId
+  let time = 3000
+
+  while (time < 90000) {
+    const family = pickPatternFamily(
+      diffConfig.patternWeights,
+      random,
+      (candidate) => hasChords || (candidate !== "jump" && candidate !== "chordJack"),
+    )
+    const rows = buildPhrase(family, { lanes, difficulty, previousRow }, random)
+    const interval = diffConfig.noteInterval.min + random() * (diffConfig.noteInterval.max - diffConfig.noteInterval.min)
+    placer.startPhrase()
+
+    rows.forEach((row, index) => {
+      if (time >= 90000) return
+      // 롱노트가 아직 끝나지 않은 레인은 피하기
+      const placed = placer.place(row, (lane) => time < laneFreeAt[lane] + diffConfig.noteInterval.min)
+      if (placed.length > 0) previousRow = placed
+
+      placed.forEach((lane) => {
+        // 구절의 마지막 단일 노트는 난이도별 확률로 롱노트
+        const isHold = index === rows.length - 1 && placed.length === 1 && random() < diffConfig.holdNoteRatio
+        const endTime = isHold ? time + diffConfig.noteInterval.max * (1 + Math.floor(random() * 3)) : undefined
+        laneFreeAt[lane] = endTime ?? time
+
+        newNotes.push({
+          id: id++,
+          lane,
+          startTime: time,
+          endTime,
+          currentY: -100,
+          hit: false,
+        })
+      })
+      time += interval
+    })
+  }
+
+  return newNotes.sort((a, b) => a.startTime - b.startTime)
+}
+
+// 음원 분석 채보의 박자 분할 (난이도별로 스냅할 가장 작은 단위, 1/n 박)
+const AUDIO_CHART_DIVISIONS: Record<Difficulty, number> = {
+  easy: 1,
+  normal: 2,
+  hard: 4,
+}
+
+// 첫 노트를 놓을 수 있는 가장 이른 시간 (ms)
+const AUDIO_CHART_LEAD_IN = 2000
+
+export interface AudioChartOptions extends Omit<GenerateOptions, "firstId"> {
+  title: string
+  artist: string
+}
+
+// 음원 분석 결과로 채보 생성 (검출된 음의 시작점을 박자 격자에 맞추고, 강한 음은 동시치기로)
+export function generateChartFromAudio(
+  analysis: AudioAnalysis,
+  { keyMode, difficulty, seed, title, artist }: AudioChartOptions,
+): Chart {
+  const random = createRandom(seed)
+  const diffConfig = DIFFICULTY_SETTINGS[difficulty]
+  const { bpm, offset } = analysis
+  const beatLength = 60000 / bpm
+  const division = AUDIO_CHART_DIVISIONS[difficulty]
+
+  // 1. 시작점을 격자에 맞추고, 같은 칸에 모인 시작점은 가장 강한 것만 남긴다
+  const slots = new Map<number, number>() // 격자 번호 → 세기
+  analysis.onsets.forEach(({ time, strength }) => {
+    if (time < AUDIO_CHART_LEAD_IN) return
+    const slot = Math.round(((time - offset) / beatLength) * division)
+    // 첫 박보다 앞선 시작점은 음수 박자가 되어 채보에 담을 수 없다
+    if (slot < 0) return
+    slots.set(slot, Math.max(slots.get(slot) ?? 0, strength))
+  })
+
+  // 2. 강한 시작점부터 난이도별 최소 간격을 지키며 채택 (밀도 조절)
+  const minSlotGap = Math.max(1, Math.round((diffConfig.noteInterval.min / beatLength) * division))
+  const accepted: { slot: number; strength: number }[] = []
+  const taken = new Set<number>()
+  const byStrength = [...slots.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])
+  byStrength.forEach(([slot, strength]) => {
+    for (let near = slot - minSlotGap + 1; near < slot + minSlotGap; near++) {
+      if (taken.has(near)) return
+    }
+    taken.add(slot)
+    accepted.push({ slot, strength })
+  })
+  accepted.sort((a, b) => a.slot - b.slot)
+
+  // 3. 세기 상위 일부는 동시치기 (비율은 패턴 복잡도에 비례)
+  const strengths = accepted.map((onset) => onset.strength).sort((a, b) => b - a)
+  const chordThreshold = strengths[Math.floor(strengths.length * 0.25 * diffConfig.patternComplexity)] ?? Infinity
+  const tripleThreshold = strengths[Math.floor(strengths.length * 0.05 * diffConfig.patternComplexity)] ?? Infinity
+
+  const patterns = getPatterns(keyMode, difficulty)
+  const patternsBySize = (size: number) => patterns.filter((pattern) => pattern.length === size)
+  const laneFreeSlot = new Array<number>(keyMode).fill(-Infinity)
+  const notes: ChartNote[] = []
+  let previousPattern: number[] = []
+
+  accepted.forEach(({ slot, strength }, index) => {
+    const size = strength > tripleThreshold ? 3 : strength > chordThreshold ? 2 : 1
+    // 만들 수 없는 크기(예: 4키의 3개 동시치기)는 한 단계씩 줄인다
+    let candidates: number[][] = []
+    for (let count = size; count >= 1 && candidates.length === 0; count--) {
+      candidates = patternsBySize(count).filter((pattern) => pattern.every((lane) => laneFreeSlot[lane] < slot))
+    }
+    if (candidates.length === 0) return
+
+    // 같은 패턴이 연속되지 않도록 (선택지가 있을 때만)
+    const fresh = candidates.filter((pattern) => pattern.join() !== previousPattern.join())
+    const pool = fresh.length > 0 ? fresh : candidates
+    const pattern = pool[Math.floor(random() * pool.length)]
+    previousPattern = pattern
+
+    // 다음 음까지 두 박 이상 비면 난이도별 확률로 롱노트
+    const nextSlot = accepted[index + 1]?.slot ?? slot + division * 4
+    const gap = nextSlot - slot
+    const isHold = pattern.length === 1 && gap >= division * 2 && random() < diffConfig.holdNoteRatio * 2
+    const length = isHold ? gap - Math.max(1, Math.floor(division / 2)) : 0
+
+    pattern.forEach((lane) => {
+      laneFreeSlot[lane] = slot + length
+      const note: ChartNote = { beat: slot / division, lane }
+      if (length > 0) note.length = length / division
+      notes.push(note)
+    })
+  })
+
+  return {
+    version: CHART_FORMAT_VERSION,
+    meta: { title, artist, bpm, offset, keyMode, difficulty },
+    notes: notes.sort((a, b) => a.beat - b.beat || a.lane - b.lane),
+  }
+}
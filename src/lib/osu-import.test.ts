@@ -0,0 +1,87 @@
+import assert from "node:assert/strict"
+import { readFileSync } from "node:fs"
+import path from "node:path"
+import { describe, test } from "node:test"
+import { ChartParseError, chartToNotes } from "@/lib/chart"
+import { importChart } from "@/lib/chart-import"
+import { parseOsuMania } from "@/lib/osu-import"
+
+// 1000ms부터 120 BPM, 3000ms에 상속 포인트(스크롤 2배), 5000ms에 240 BPM. 2000~3000ms에 롱노트가 있다 (CRLF 줄바꿈)
+const SAMPLE = readFileSync(path.join(process.cwd(), "src", "lib", "fixtures", "sample.osu"), "utf8")
+
+const withHitObjects = (...lines: string[]) =>
+  SAMPLE.replace(/\[HitObjects\][\s\S]*$/, ["[HitObjects]", ...lines].join("\n"))
+
+describe("parseOsuMania", () => {
+  test("메타데이터와 난이도, 키음을 읽는다", () => {
+    const imported = parseOsuMania(SAMPLE)
+    assert.equal(imported.title, "Fixture [Hard]")
+    assert.equal(imported.artist, "Tester")
+    assert.equal(imported.difficulty, "hard")
+    assert.equal(imported.audio, "audio.mp3")
+    assert.deepEqual(imported.sounds, { "kick.wav": "kick.wav" })
+  })
+
+  test("노트 시각과 열, 롱노트 끝 시각, 타이밍 포인트", () => {
+    const imported = parseOsuMania(SAMPLE)
+    assert.equal(imported.columns, 4)
+    assert.equal(imported.bpm, 120)
+    // 첫 노트(500ms)보다 늦은 첫 BPM 포인트는 박 단위로 당겨 오프셋으로 쓴다
+    assert.equal(imported.offset, 500)
+    assert.deepEqual(
+      imported.notes.map(({ time, endTime, column }) => ({ time, endTime, column })),
+      [
+        { time: 500, endTime: undefined, column: 0 },
+        { time: 1000, endTime: undefined, column: 1 },
+        { time: 2000, endTime: 3000, column: 2 },
+        { time: 5500, endTime: undefined, column: 3 },
+      ],
+    )
+    assert.deepEqual(imported.timing, [
+      { time: 3000, scroll: 2 },
+      { time: 5000, bpm: 240, scroll: 1 },
+    ])
+  })
+
+  test("채보로 변환하면 박자 위치의 노트와 타이밍이 되고 노트 시각은 그대로", () => {
+    const { chart, columns, droppedNotes } = importChart("sample.osu", SAMPLE)
+    assert.equal(columns, 4)
+    assert.equal(droppedNotes, 0)
+    assert.equal(chart.meta.keyMode, 4)
+    assert.deepEqual(
+      chart.notes.map(({ beat, lane, length }) => ({ beat, lane, length })),
+      [
+        { beat: 0, lane: 0, length: undefined },
+        { beat: 1, lane: 1, length: undefined },
+        { beat: 3, lane: 2, length: 2 },
+        { beat: 11, lane: 3, length: undefined },
+      ],
+    )
+    assert.deepEqual(chart.timing, [
+      { beat: 5, scroll: 2 },
+      { beat: 9, bpm: 240, scroll: 1 },
+    ])
+    assert.deepEqual(
+      chartToNotes(chart).map(({ startTime, endTime }) => [startTime, endTime]),
+      [
+        [500, undefined],
+        [1000, undefined],
+        [2000, 3000],
+        [5500, undefined],
+      ],
+    )
+  })
+
+  test("mania가 아닌 모드, 끝 시각 없는 롱노트, BPM 포인트 없는 채보는 거부한다", () => {
+    assert.throws(() => parseOsuMania(SAMPLE.replace("Mode: 3", "Mode: 0")), /osu!mania\(Mode: 3\).*\(Mode: 0\)/)
+    assert.throws(
+      () => parseOsuMania(withHitObjects("320,192,2000,128,0,end:0:0:0:0:")),
+      (error) => error instanceof ChartParseError && /^\d+번째 줄: 롱노트 끝 시각이 올바르지 않습니다/.test(error.message),
+    )
+    assert.throws(
+      () => parseOsuMania(SAMPLE.replace(/^(\d+),(500|250),4,1,0,100,1,0/gm, "$1,-100,4,1,0,100,0,0")),
+      (error) => error instanceof ChartParseError && error.path === "TimingPoints",
+    )
+    assert.throws(() => importChart("empty.osu", withHitObjects()), /건반 노트가 없습니다/)
+  })
+})
@@ -0,0 +1,146 @@
+import { ChartParseError } from "@/lib/chart"
+import type { ImportedChart, ImportedNote, ImportedTimingPoint } from "@/lib/chart-import"
+import type { Difficulty } from "@/lib/game-config"
+
+// osu! 게임 모드 번호 (3 = osu!mania)
+const MANIA_MODE = 3
+
+// 히트 오브젝트 종류 비트 (128 = 롱노트)
+const HOLD_NOTE_TYPE = 128
+
+// 상속 타이밍 포인트의 스크롤 속도 배율 범위
+const MIN_SCROLL = 0.01
+const MAX_SCROLL = 10
+
+// beatLength(한 박 길이 ms)를 BPM으로 (소수 셋째 자리까지)
+const toBpm = (beatLength: number) => Math.round((60000 / beatLength) * 1000) / 1000
+
+// OverallDifficulty(판정 난이도)로 나누는 난이도
+const getDifficulty = (overallDifficulty: number): Difficulty =>
+  overallDifficulty < 5 ? "easy" : overallDifficulty < 8 ? "normal" : "hard"
+
+// osu!mania(.osu, mode 3) 채보 읽기
+// 열은 x 좌표로 정하고(열 = floor(x × 키 수 / 512)), 롱노트 끝 시각과 키음 파일은 오브젝트 뒷부분에서 읽는다
+export function parseOsuMania(text: string): ImportedChart {
+  const values = new Map<string, string>() // [General], [Metadata], [Difficulty]의 키: 값
+  const timingPoints: { time: number; beatLength: number; uninherited: boolean }[] = []
+  const objects: { fields: string[]; line: number }[] = []
+  let section = ""
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+    if (line === "" || line.startsWith("//")) return
+
+    const header = line.match(/^\[(\w+)\]$/)
+    if (header) {
+      section = header[1]
+      return
+    }
+
+    switch (section) {
+      case "General":
+      case "Metadata":
+      case "Difficulty": {
+        const separator = line.indexOf(":")
+        if (separator > 0) values.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+        break
+      }
+      case "TimingPoints": {
+        // time,beatLength,meter,sampleSet,sampleIndex,volume,uninherited,effects
+        // (상속 타이밍 포인트는 beatLength가 음수이며 스크롤 속도 변화만 담고 있다)
+        const fields = line.split(",")
+        const time = Number(fields[0])
+        const beatLength = Number(fields[1])
+        const uninherited = fields[6] === undefined ? beatLength > 0 : fields[6].trim() === "1"
+        if (Number.isFinite(time) && Number.isFinite(beatLength) && (uninherited ? beatLength > 0 : beatLength < 0)) {
+          timingPoints.push({ time, beatLength, uninherited })
+        }
+        break
+      }
+      case "HitObjects":
+        objects.push({ fields: line.split(","), line: lineNumber })
+        break
+    }
+  })
+
+  const mode = Number(values.get("Mode") ?? 0)
+  if (mode !== MANIA_MODE) {
+    throw new ChartParseError(`osu!mania(Mode: ${MANIA_MODE}) 채보만 불러올 수 있습니다 (Mode: ${mode})`)
+  }
+
+  const columns = Math.round(Number(values.get("CircleSize")))
+  if (!Number.isInteger(columns) || columns <= 0) {
+    throw new ChartParseError(`키 수가 올바르지 않습니다 (${values.get("CircleSize")})`, "CircleSize")
+  }
+
+  const notes = objects.map(({ fields, line }): ImportedNote => {
+    // x,y,time,type,hitSound,objectParams,hitSample
+    const x = Number(fields[0])
+    const time = Number(fields[2])
+    const type = Number(fields[3])
+    if (!Number.isFinite(x) || !Number.isFinite(time) || !Number.isInteger(type)) {
+      throw new ChartParseError("히트 오브젝트 형식이 올바르지 않습니다", `${line}번째 줄`)
+    }
+
+    const note: ImportedNote = {
+      time,
+      column: Math.min(columns - 1, Math.max(0, Math.floor((x * columns) / 512))),
+    }
+    // 롱노트는 endTime:hitSample, 단타는 hitSample (normalSet:additionSet:index:volume:filename)
+    const extras = (fields[5] ?? "").split(":")
+    if (type & HOLD_NOTE_TYPE) {
+      const endTime = Number(extras.shift())
+      if (!Number.isFinite(endTime)) {
+        throw new ChartParseError("롱노트 끝 시각이 올바르지 않습니다", `${line}번째 줄`)
+      }
+      note.endTime = endTime
+    }
+    const sample = extras[4]?.trim()
+    if (sample) note.sound = sample
+    return note
+  })
+
+  // 박자 격자는 첫 BPM에 맞추고, 첫 노트보다 앞에서 시작하도록 한 박씩 당긴다
+  const first = timingPoints.reduce<(typeof timingPoints)[number] | null>(
+    (earliest, point) => (!point.uninherited || (earliest && earliest.time <= point.time) ? earliest : point),
+    null,
+  )
+  if (!first) {
+    throw new ChartParseError("BPM을 정하는 타이밍 포인트가 없습니다", "TimingPoints")
+  }
+  const firstNoteTime = notes.reduce((min, note) => Math.min(min, note.time), first.time)
+  const offset = first.time - Math.ceil((first.time - firstNoteTime) / first.beatLength) * first.beatLength
+
+  // 이후의 변속(상속되지 않은 포인트, 스크롤 속도도 1로 돌아간다)과 스크롤 속도 변화
+  // (같은 시각이면 변속을 먼저 적용해 상속 포인트의 스크롤 속도가 남도록 한다)
+  const timing = timingPoints
+    .filter((point) => point !== first)
+    .sort((a, b) => a.time - b.time || Number(b.uninherited) - Number(a.uninherited))
+    .map(({ time, beatLength, uninherited }): ImportedTimingPoint =>
+      uninherited
+        ? { time, bpm: toBpm(beatLength), scroll: 1 }
+        : { time, scroll: Math.min(MAX_SCROLL, Math.max(MIN_SCROLL, -100 / beatLength)) },
+    )
+
+  // 키음은 파일 이름을 그대로 ID로 쓴다
+  const soundFiles = [...new Set(notes.flatMap(({ sound }) => (sound ? [sound] : [])))]
+
+  // 같은 곡의 여러 채보를 구분하도록 채보 이름(Version)을 제목에 붙인다
+  const title = values.get("TitleUnicode") || values.get("Title") || "제목 없음"
+  const version = values.get("Version")
+  const audio = values.get("AudioFilename")
+  return {
+    title: version ? `${title} [${version}]` : title,
+    artist: values.get("ArtistUnicode") || values.get("Artist") || "작곡가 미상",
+    difficulty: getDifficulty(Number(values.get("OverallDifficulty") ?? 5)),
+    audio: audio || undefined,
+    bpm: toBpm(first.beatLength),
+    offset,
+    columns,
+    padSide: "left",
+    notes,
+    sounds: soundFiles.length > 0 ? Object.fromEntries(soundFiles.map((file) => [file, file])) : undefined,
+    timing,
+  }
+}
@@ -0,0 +1,231 @@
+import { DIFFICULTY_SETTINGS, type Difficulty, type PatternFamily } from "@/lib/game-config"
+import type { Random } from "@/lib/note-generator"
+
+// 같은 시각에 치는 레인 묶음 (한 줄)
+export type PatternRow = number[]
+
+// 한 손으로만 연속해서 칠 수 있는 줄 수 (6키 이상에서 양손 균형 유지)
+const MAX_SAME_HAND_ROWS = 4
+const HAND_BALANCE_MIN_LANES = 6
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1))
+const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)]
+
+// 키 모드와 난이도에 따른 동시치기 패턴 목록
+export function getPatterns(lanes: number, difficulty: Difficulty) {
+  const diffConfig = DIFFICULTY_SETTINGS[difficulty]
+  const patterns = []
+
+  // 단일 노트 (모든 난이도)
+  for (let i = 0; i < lanes; i++) {
+    patterns.push([i])
+  }
+
+  // 더블 노트 (Normal 이상)
+  if (diffConfig.patternComplexity >= 0.6) {
+    for (let i = 0; i < lanes - 1; i++) {
+      patterns.push([i, i + 1])
+      if (i < lanes - 2) patterns.push([i, i + 2])
+    }
+  }
+
+  // 트리플 노트 (Hard + 6키 이상)
+  if (diffConfig.patternComplexity >= 1.0 && lanes >= 6) {
+    for (let i = 0; i < lanes - 2; i++) {
+      patterns.push([i, i + 1, i + 2])
+    }
+  }
+
+  // 쿼드 노트 (Hard + 8키)
+  if (diffConfig.patternComplexity >= 1.0 && lanes >= 8) {
+    patterns.push([0, 1, 2, 3])
+    patterns.push([4, 5, 6, 7])
+    patterns.push([0, 2, 4, 6])
+    patterns.push([1, 3, 5, 7])
+  }
+
+  // Easy 모드에서는 복잡한 패턴 제한
+  if (difficulty === "easy") {
+    return patterns.filter((pattern) => pattern.length <= 2)
+  }
+
+  return patterns
+}
+
+// 난이도의 가중치에 따라 패턴 계열 선택 (만들 수 없는 계열은 가중치 0으로 본다)
+export function pickPatternFamily(
+  weights: Record<PatternFamily, number>,
+  random: Random,
+  isAvailable: (family: PatternFamily) => boolean = () => true,
+): PatternFamily {
+  const entries = (Object.entries(weights) as [PatternFamily, number][]).filter(
+    ([family, weight]) => weight > 0 && isAvailable(family),
+  )
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  if (total === 0) return "stream"
+
+  let target = random() * total
+  for (const [family, weight] of entries) {
+    target -= weight
+    if (target < 0) return family
+  }
+  return entries[entries.length - 1][0]
+}
+
+export interface PhraseOptions {
+  lanes: number
+  difficulty: Difficulty
+  previousRow: PatternRow // 직전 구절의 마지막 줄 (이어지는 흐름을 위해)
+}
+
+// 계열별로 한 구절(여러 줄)을 만든다
+export function buildPhrase(
+  family: PatternFamily,
+  { lanes, difficulty, previousRow }: PhraseOptions,
+  random: Random,
+): PatternRow[] {
+  const { maxJack } = DIFFICULTY_SETTINGS[difficulty]
+  const chords = getPatterns(lanes, difficulty).filter((pattern) => pattern.length >= 2)
+  const rows: PatternRow[] = []
+  const lastLane = previousRow.length === 1 ? previousRow[0] : -1
+
+  switch (family) {
+    case "stream": {
+      // 연타: 직전 레인과 다른 레인으로 계속 이동
+      let lane = lastLane
+      const length = randomInt(random, 6, 12)
+      for (let i = 0; i < length; i++) {
+        if (lane < 0) {
+          lane = randomInt(random, 0, lanes - 1)
+        } else {
+          const next = randomInt(random, 0, lanes - 2)
+          lane = next >= lane ? next + 1 : next
+        }
+        rows.push([lane])
+      }
+      break
+    }
+    case "trill": {
+      // 트릴: 붙어 있거나 한 칸 떨어진 두 레인을 번갈아
+      const first = randomInt(random, 0, lanes - 1)
+      const distance = lanes > 4 && random() < 0.5 ? 2 : 1
+      const second = first + distance < lanes ? first + distance : first - distance
+      const length = randomInt(random, 4, 8)
+      for (let i = 0; i < length; i++) {
+        rows.push([i % 2 === 0 ? first : second])
+      }
+      break
+    }
+    case "stair": {
+      // 계단: 한 방향으로 한 칸씩, 끝에 닿으면 방향을 바꾼다
+      let direction = random() < 0.5 ? 1 : -1
+      let lane = direction === 1 ? 0 : lanes - 1
+      const length = randomInt(random, Math.ceil(lanes / 2) + 1, lanes + 2)
+      for (let i = 0; i < length; i++) {
+        rows.push([lane])
+        if (lane + direction < 0 || lane + direction >= lanes) direction = -direction
+        lane += direction
+      }
+      break
+    }
+    case "jack": {
+      // 같은 레인 연타 (최대 연속 횟수까지)
+      const lane = randomInt(random, 0, lanes - 1)
+      const length = randomInt(random, 2, Math.max(2, maxJack))
+      for (let i = 0; i < length; i++) {
+        rows.push([lane])
+      }
+      break
+    }
+    case "jump": {
+      // 동시치기 연속: 직전 줄과 겹치지 않는 동시치기
+      let previous = previousRow
+      const length = randomInt(random, 3, 6)
+      for (let i = 0; i < length; i++) {
+        const fresh = chords.filter((chord) => chord.every((lane) => !previous.includes(lane)))
+        previous = pick(random, fresh.length > 0 ? fresh : chords)
+        rows.push(previous)
+      }
+      break
+    }
+    case "chordJack": {
+      // 같은 동시치기 반복 (가끔 한 레인만 옆으로 옮긴다)
+      let chord = pick(random, chords)
+      const length = randomInt(random, 2, Math.max(2, maxJack))
+      for (let i = 0; i < length; i++) {
+        rows.push(chord)
+        const moved = chords.filter(
+          (candidate) => candidate.length === chord.length && candidate.filter((lane) => !chord.includes(lane)).length === 1,
+        )
+        if (moved.length > 0 && random() < 0.3) chord = pick(random, moved)
+      }
+      break
+    }
+  }
+
+  return rows
+}
+
+// 구절의 줄을 실제 레인에 배치하면서 제약을 지킨다
+// (같은 레인 최대 연속 횟수, 사용할 수 없는 레인 피하기, 6키 이상에서 한 손 쏠림 방지)
+export function createRowPlacer(lanes: number, difficulty: Difficulty) {
+  const { maxJack } = DIFFICULTY_SETTINGS[difficulty]
+  const runs = new Array<number>(lanes).fill(0) // 레인별 연속으로 친 횟수
+  const half = lanes / 2
+  let handRun = { hand: "both", count: 0 }
+  let mirrored = false
+
+  const mirror = (row: PatternRow) => row.map((lane) => lanes - 1 - lane)
+  const getHand = (row: PatternRow) =>
+    row.every((lane) => lane < half) ? "left" : row.every((lane) => lane >= half) ? "right" : "both"
+
+  return {
+    // 새 구절 시작 (좌우 반전 초기화)
+    startPhrase() {
+      mirrored = false
+    },
+
+    // isBlocked: 롱노트가 아직 끝나지 않은 레인 등 지금 놓을 수 없는 레인
+    place(row: PatternRow, isBlocked: (lane: number) => boolean): PatternRow {
+      let target = mirrored ? mirror(row) : row
+
+      // 한 손만 계속 치게 되면 이후 구절을 반대 손으로 뒤집는다
+      if (lanes >= HAND_BALANCE_MIN_LANES) {
+        const hand = getHand(target)
+        if (hand !== "both" && hand === handRun.hand && handRun.count >= MAX_SAME_HAND_ROWS) {
+          mirrored = !mirrored
+          target = mirror(target)
+        }
+      }
+
+      // 연속 횟수를 넘거나 놓을 수 없는 레인은 가장 가까운 다른 레인으로
+      const placed: PatternRow = []
+      target.forEach((lane) => {
+        const canUse = (candidate: number) =>
+          runs[candidate] < maxJack && !isBlocked(candidate) && !placed.includes(candidate)
+        if (canUse(lane)) {
+          placed.push(lane)
+          return
+        }
+        for (let distance = 1; distance < lanes; distance++) {
+          const candidate = [lane - distance, lane + distance].find(
+            (near) => near >= 0 && near < lanes && !target.includes(near) && canUse(near),
+          )
+          if (candidate !== undefined) {
+            placed.push(candidate)
+            return
+          }
+        }
+      })
+
+      for (let lane = 0; lane < lanes; lane++) {
+        runs[lane] = placed.includes(lane) ? runs[lane] + 1 : 0
+      }
+      if (placed.length > 0) {
+        const hand = getHand(placed)
+        handRun = hand === handRun.hand ? { hand, count: handRun.count + 1 } : { hand, count: 1 }
+      }
+      return placed.sort((a, b) => a - b)
+    },
+  }
+}
@@ -0,0 +1,82 @@
+import type { Note } from "@/lib/game-config"
+import { BEATS_PER_MEASURE, type TimingMap } from "@/lib/timing"
+
+const STORAGE_KEY = "musicGame.practice.v1"
+
+// 연습 구간 (곡 시간 ms, 시작 포함, 끝 제외)
+export interface PracticeRange {
+  start: number
+  end: number
+}
+
+// 연습 설정 (구간은 채보마다 다르므로 저장하지 않는다)
+export interface PracticeSettings {
+  rate: number // 재생 속도 (음원이 있으면 음 높이를 유지한다)
+  leadIn: number // 구간 시작 전에 미리 재생하는 시간 (ms)
+}
+
+// 진행 중인 연습 (시작할 때 고른 구간 포함)
+export interface PracticeSession extends PracticeSettings {
+  range: PracticeRange
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = { rate: 1, leadIn: 2000 }
+
+export const MIN_PRACTICE_RATE = 0.5
+export const MAX_PRACTICE_RATE = 1.5
+export const PRACTICE_RATE_STEP = 0.05
+export const MAX_LEAD_IN = 5000
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback
+
+export function loadPracticeSettings(): PracticeSettings {
+  if (typeof window === "undefined") return DEFAULT_PRACTICE_SETTINGS
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_PRACTICE_SETTINGS
+    const saved = JSON.parse(raw) as Partial<Record<keyof PracticeSettings, unknown>>
+    return {
+      rate: clamp(saved.rate, MIN_PRACTICE_RATE, MAX_PRACTICE_RATE, DEFAULT_PRACTICE_SETTINGS.rate),
+      leadIn: clamp(saved.leadIn, 0, MAX_LEAD_IN, DEFAULT_PRACTICE_SETTINGS.leadIn),
+    }
+  } catch {
+    return DEFAULT_PRACTICE_SETTINGS
+  }
+}
+
+export function savePracticeSettings(settings: PracticeSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}
+
+// 구간 안에서 시작하는 노트 (음악이 구간 끝에서 멈추므로 구간 끝을 넘는 롱노트는 뺀다)
+export function getPracticeNotes(notes: Note[], range: PracticeRange): Note[] {
+  return notes.filter(
+    (note) => note.startTime >= range.start && note.startTime < range.end && (note.endTime ?? 0) <= range.end,
+  )
+}
+
+// 채보 개요용 노트 밀도 (0~duration을 binCount개로 나눈 구간별 노트 수)
+export function getNoteDensity(notes: Note[], duration: number, binCount: number): number[] {
+  const bins = new Array<number>(binCount).fill(0)
+  if (duration <= 0) return bins
+  notes.forEach((note) => {
+    const bin = Math.floor((note.startTime / duration) * binCount)
+    bins[Math.max(0, Math.min(binCount - 1, bin))]++
+  })
+  return bins
+}
+
+// 마디 번호(1부터)가 시작하는 곡 시간
+export function getMeasureTime(timing: TimingMap, measure: number) {
+  return timing.beatToTime((measure - 1) * BEATS_PER_MEASURE)
+}
+
+// 곡 시간이 속한 마디 번호 (1부터, 첫 마디 이전은 1, 마디 시작 시각의 오차는 그 마디로)
+export function getMeasureAt(timing: TimingMap, time: number) {
+  return Math.max(1, Math.floor(timing.timeToBeat(time) / BEATS_PER_MEASURE + 1e-6) + 1)
+}
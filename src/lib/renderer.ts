@@ -0,0 +1,351 @@
+import {
+  GAME_HEIGHT,
+  JUDGMENT_DISPLAY,
+  JUDGMENT_LINE_Y,
+  KEY_MODES,
+  LANE_COLOR_HEX,
+  type KeyMode,
+  type Note,
+} from "@/lib/game-config"
+import type { JudgeEvent } from "@/lib/judge"
+import { BEATS_PER_MEASURE, type TimingMap } from "@/lib/timing"
+
+export const NOTE_HEIGHT = 36
+
+// 판정된 노트 효과와 판정 표시가 남아 있는 시간 (ms)
+const EFFECT_DURATION = { tap: 200, tail: 200, miss: 300 }
+const JUDGMENT_TEXT_DURATION = 500
+
+// 한 번에 그리는 박자선 최대 개수
+const MAX_BEAT_LINES = 256
+
+// 시작 시간 순으로 정렬된 노트와 스크롤 위치 범위 검색용 색인 (플레이 동안 바뀌지 않는다)
+// timing이 없으면(랜덤 채보) 스크롤 위치는 곡 시간과 같다
+export interface NoteTimeline {
+  notes: Note[]
+  timing?: TimingMap
+  startPositions: Float64Array // 노트 머리의 스크롤 위치 (시간 순이므로 정렬되어 있다)
+  maxLength: number // 가장 긴 롱노트 길이 (스크롤 위치 기준)
+  indexById: Map<number, number>
+}
+
+// 곡 시간의 스크롤 위치
+export const getScrollPosition = (timeline: NoteTimeline, time: number) =>
+  timeline.timing ? timeline.timing.getPosition(time) : time
+
+// notes는 시작 시간 순이어야 한다 (createJudgeState가 만든 순서를 그대로 사용)
+export function createNoteTimeline(notes: Note[], timing?: TimingMap): NoteTimeline {
+  const timeline: NoteTimeline = { notes, timing, startPositions: new Float64Array(), maxLength: 0, indexById: new Map() }
+  timeline.startPositions = Float64Array.from(notes, (note) => getScrollPosition(timeline, note.startTime))
+  timeline.maxLength = notes.reduce(
+    (max, note, index) =>
+      note.endTime !== undefined
+        ? Math.max(max, getScrollPosition(timeline, note.endTime) - timeline.startPositions[index])
+        : max,
+    0,
+  )
+  timeline.indexById = new Map(notes.map((note, index) => [note.id, index]))
+  return timeline
+}
+
+// startPositions에서 value 이상인 첫 위치
+const lowerBound = (values: Float64Array, value: number) => {
+  let low = 0
+  let high = values.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (values[mid] < value) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+// from~to 스크롤 위치 범위에 걸칠 수 있는 노트의 인덱스 범위 [시작, 끝)
+// (롱노트는 가장 긴 길이만큼 앞쪽을 넓혀 찾으므로 범위 밖 노트가 일부 섞일 수 있다)
+export function getNoteRange(timeline: NoteTimeline, from: number, to: number): [number, number] {
+  return [
+    lowerBound(timeline.startPositions, from - timeline.maxLength),
+    lowerBound(timeline.startPositions, to + 1e-9),
+  ]
+}
+
+export interface RenderFrame {
+  time: number // 화면 기준 곡 시간 (ms)
+  timeline: NoteTimeline
+  notes: Note[] // 판정 상태의 노트 (timeline.notes와 같은 순서)
+  pressedLanes: ReadonlySet<number>
+}
+
+export interface RendererOptions {
+  keyMode: KeyMode
+  scrollSpeed: number // 노트가 내려오는 속도 (px/s, 배속 반영, 채보의 스크롤 속도 변화는 따로 곱한다)
+  visibility?: VisibilityOptions
+  beatLines?: boolean // 레인에 박자선과 마디선 표시 (타이밍 정보가 있는 채보만)
+}
+
+// 노트를 가리는 플레이 옵션 (레인 위에 배경색 가림막을 덧그린다)
+export interface VisibilityOptions {
+  hidden: boolean // 판정선 위 구간을 가림
+  sudden: boolean // 화면 위쪽 구간을 가림
+  laneCover: number // 위쪽 가림막 높이 (판정선까지 거리 대비 비율)
+}
+
+// 가림막 색 (게임 영역 배경과 같은 색)
+const COVER_COLOR = "17, 24, 39"
+// 히든/서든이 가리는 구간 (판정선까지 거리 대비 비율)과 흐려지는 폭 (px)
+const HIDDEN_RANGE = [0.5, 1]
+const SUDDEN_RANGE = [0, 0.4]
+const COVER_FADE = 60
+
+// 게임 화면 렌더러 (게임 루프와 리플레이 보기가 그리는 방식과 무관하게 사용)
+export interface GameRenderer {
+  render(frame: RenderFrame): void
+  // 판정 효과 추가 (time은 효과가 시작되는 화면 기준 곡 시간)
+  addEffect(event: JudgeEvent, time: number): void
+  clearEffects(): void
+  dispose(): void
+}
+
+interface Effect {
+  event: JudgeEvent
+  time: number
+}
+
+// <canvas>에 레인, 노트, 판정선, 판정 효과를 그리는 렌더러
+export class CanvasRenderer implements GameRenderer {
+  private canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D | null
+  private options: RendererOptions
+  private effects: Effect[] = []
+  private lastJudgment: Effect | null = null
+
+  constructor(canvas: HTMLCanvasElement, options: RendererOptions) {
+    this.canvas = canvas
+    this.context = canvas.getContext("2d")
+    this.options = options
+  }
+
+  render({ time, timeline, notes, pressedLanes }: RenderFrame) {
+    const context = this.context
+    if (!context) return
+
+    // 표시 크기에 맞춰 캔버스 해상도 조정
+    const width = this.canvas.clientWidth
+    const dpr = window.devicePixelRatio || 1
+    if (this.canvas.width !== Math.round(width * dpr) || this.canvas.height !== Math.round(GAME_HEIGHT * dpr)) {
+      this.canvas.width = Math.round(width * dpr)
+      this.canvas.height = Math.round(GAME_HEIGHT * dpr)
+    }
+    context.setTransform(dpr, 0, 0, dpr, 0, 0)
+    context.clearRect(0, 0, width, GAME_HEIGHT)
+
+    const { keyMode } = this.options
+    const laneWidth = width / keyMode
+
+    // 레인 (누르고 있는 레인은 밝게)
+    for (let lane = 0; lane < keyMode; lane++) {
+      if (pressedLanes.has(lane)) {
+        context.fillStyle = "rgba(255, 255, 255, 0.2)"
+        context.fillRect(lane * laneWidth, 0, laneWidth, GAME_HEIGHT)
+      }
+      context.fillStyle = "#4b5563"
+      context.fillRect((lane + 1) * laneWidth - 1, 0, 1, GAME_HEIGHT)
+    }
+
+    // 화면에 걸치는 스크롤 위치 범위의 노트만 그린다
+    const position = getScrollPosition(timeline, time)
+    const from = this.getPositionAtY(GAME_HEIGHT, position)
+    const to = this.getPositionAtY(-NOTE_HEIGHT, position)
+    if (this.options.beatLines) this.drawBeatLines(context, timeline, time, position, width)
+
+    const [start, end] = getNoteRange(timeline, from, to)
+    for (let index = start; index < end; index++) {
+      const note = notes[index]
+      if (note.hit) continue
+      // 롱노트는 누르는 동안 머리가 판정선에 고정되고 몸통이 줄어든다
+      const headY = note.holding ? JUDGMENT_LINE_Y : this.getNoteY(timeline, note.startTime, position)
+      const tailY = note.endTime !== undefined ? this.getNoteY(timeline, note.endTime, position) : headY
+      if (headY < -NOTE_HEIGHT || tailY > GAME_HEIGHT) continue
+      this.drawNote(context, note, laneWidth, headY, tailY)
+    }
+
+    this.drawCovers(context, width)
+
+    // 판정선과 글로우
+    context.save()
+    context.shadowColor = "rgba(255, 255, 255, 0.6)"
+    context.shadowBlur = 8
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, JUDGMENT_LINE_Y, width, 4)
+    context.restore()
+
+    this.drawEffects(context, time, timeline, laneWidth)
+    this.drawJudgment(context, time, width)
+  }
+
+  addEffect(event: JudgeEvent, time: number) {
+    if (event.judgment !== "miss") {
+      this.lastJudgment = { event, time }
+    }
+    // 롱노트는 꼬리까지 판정된 뒤에 사라진다
+    if (event.part !== "head") {
+      this.effects.push({ event, time })
+    }
+  }
+
+  clearEffects() {
+    this.effects = []
+    this.lastJudgment = null
+  }
+
+  dispose() {
+    this.clearEffects()
+    this.context?.clearRect(0, 0, this.canvas.width, this.canvas.height)
+  }
+
+  // 히든, 서든, 가림막 (판정 효과와 판정선은 가리지 않는다)
+  private drawCovers(context: CanvasRenderingContext2D, width: number) {
+    const visibility = this.options.visibility
+    if (!visibility) return
+
+    // from~to 구간을 가리고, fadeTop/fadeBottom 쪽 가장자리는 점점 투명하게
+    const cover = (from: number, to: number, fadeTop: boolean, fadeBottom: boolean) => {
+      const start = from * JUDGMENT_LINE_Y - (fadeTop ? COVER_FADE : 0)
+      const end = to * JUDGMENT_LINE_Y + (fadeBottom ? COVER_FADE : 0)
+      const fade = COVER_FADE / (end - start)
+      const gradient = context.createLinearGradient(0, start, 0, end)
+      gradient.addColorStop(0, `rgba(${COVER_COLOR}, ${fadeTop ? 0 : 1})`)
+      if (fadeTop) gradient.addColorStop(fade, `rgba(${COVER_COLOR}, 1)`)
+      if (fadeBottom) gradient.addColorStop(1 - fade, `rgba(${COVER_COLOR}, 1)`)
+      gradient.addColorStop(1, `rgba(${COVER_COLOR}, ${fadeBottom ? 0 : 1})`)
+      context.fillStyle = gradient
+      context.fillRect(0, start, width, end - start)
+    }
+
+    if (visibility.hidden) cover(HIDDEN_RANGE[0], HIDDEN_RANGE[1], true, false)
+    if (visibility.sudden) cover(SUDDEN_RANGE[0], SUDDEN_RANGE[1], false, true)
+    if (visibility.laneCover > 0) {
+      const bottom = visibility.laneCover * JUDGMENT_LINE_Y
+      cover(0, visibility.laneCover, false, false)
+      context.fillStyle = "rgba(255, 255, 255, 0.3)"
+      context.fillRect(0, bottom - 2, width, 2)
+    }
+  }
+
+  // position: 현재 곡 시간의 스크롤 위치
+  private getNoteY(timeline: NoteTimeline, noteTime: number, position: number) {
+    return JUDGMENT_LINE_Y - ((getScrollPosition(timeline, noteTime) - position) / 1000) * this.options.scrollSpeed
+  }
+
+  private getPositionAtY(y: number, position: number) {
+    return position + ((JUDGMENT_LINE_Y - y) / this.options.scrollSpeed) * 1000
+  }
+
+  // 화면에 보이는 박자선 (마디 첫 박은 진하게, 판정선 아래는 그리지 않는다)
+  private drawBeatLines(
+    context: CanvasRenderingContext2D,
+    timeline: NoteTimeline,
+    time: number,
+    position: number,
+    width: number,
+  ) {
+    const { timing } = timeline
+    if (!timing) return
+    // 다음 박자부터 화면 위로 벗어날 때까지 (스크롤이 멈춘 구간이 길어도 MAX_BEAT_LINES개까지만)
+    const first = Math.max(0, Math.ceil(timing.timeToBeat(time)))
+    for (let beat = first; beat < first + MAX_BEAT_LINES; beat++) {
+      const y = this.getNoteY(timeline, timing.beatToTime(beat), position)
+      if (y < 0) break
+      if (y > JUDGMENT_LINE_Y) continue
+      const measure = beat % BEATS_PER_MEASURE === 0
+      context.fillStyle = measure ? "rgba(255, 255, 255, 0.35)" : "rgba(255, 255, 255, 0.12)"
+      context.fillRect(0, y, width, measure ? 2 : 1)
+    }
+  }
+
+  // 노트 그리기 (tailY~headY 사이는 롱노트 몸통, 머리 부분만 진하게)
+  private drawNote(context: CanvasRenderingContext2D, note: Note, laneWidth: number, headY: number, tailY: number) {
+    const x = note.lane * laneWidth + 4
+    const width = laneWidth - 8
+    const height = Math.max(0, headY - tailY) + NOTE_HEIGHT
+
+    context.fillStyle = LANE_COLOR_HEX[KEY_MODES[this.options.keyMode].colors[note.lane]] ?? "#ffffff"
+    context.beginPath()
+    context.roundRect(x, tailY, width, height, 8)
+    context.fill()
+    if (note.endTime !== undefined && headY > tailY) {
+      context.fillStyle = "rgba(0, 0, 0, 0.35)"
+      context.fillRect(x, tailY, width, headY - tailY)
+    }
+    context.strokeStyle = "#ffffff"
+    context.lineWidth = 2
+    context.stroke()
+  }
+
+  // 판정된 노트가 사라지는 효과 (맞춘 노트는 판정선에서, 놓친 노트는 그 자리에서)
+  private drawEffects(context: CanvasRenderingContext2D, time: number, timeline: NoteTimeline, laneWidth: number) {
+    this.effects = this.effects.filter(
+      (effect) => effect.time <= time && time - effect.time < EFFECT_DURATION[getEffectKind(effect.event)],
+    )
+
+    this.effects.forEach(({ event, time: effectTime }) => {
+      const index = timeline.indexById.get(event.noteId)
+      if (index === undefined) return
+      const note = timeline.notes[index]
+      const kind = getEffectKind(event)
+      const progress = (time - effectTime) / EFFECT_DURATION[kind]
+
+      let headY = JUDGMENT_LINE_Y
+      let tailY = JUDGMENT_LINE_Y
+      let scale = 1 - 0.1 * progress
+      let rotation = 0
+      let alpha = 1 - progress
+      if (kind === "miss") {
+        const position = getScrollPosition(timeline, effectTime)
+        tailY = this.getNoteY(timeline, note.endTime ?? note.startTime, position)
+        headY = note.endTime !== undefined ? this.getNoteY(timeline, note.startTime, position) : tailY
+        scale = 1 - 0.2 * progress
+        alpha = 1 - 0.7 * progress
+      } else if (kind === "tap") {
+        scale = 1 + 0.3 * progress
+        rotation = (15 * Math.PI * progress) / 180
+      }
+
+      const centerX = (note.lane + 0.5) * laneWidth
+      const centerY = (tailY + headY + NOTE_HEIGHT) / 2
+      context.save()
+      context.globalAlpha = Math.max(0, alpha)
+      context.translate(centerX, centerY)
+      context.rotate(rotation)
+      context.scale(scale, scale)
+      context.translate(-centerX, -centerY)
+      this.drawNote(context, note, laneWidth, headY, tailY)
+      context.restore()
+    })
+  }
+
+  // 판정 텍스트 (튀어 오르며 잠시 표시)
+  private drawJudgment(context: CanvasRenderingContext2D, time: number, width: number) {
+    const last = this.lastJudgment
+    if (!last || last.event.judgment === "miss") return
+    const elapsed = time - last.time
+    if (elapsed < 0 || elapsed >= JUDGMENT_TEXT_DURATION) return
+
+    const display = JUDGMENT_DISPLAY[last.event.judgment]
+    const bounce = Math.abs(Math.sin((elapsed / JUDGMENT_TEXT_DURATION) * Math.PI * 2)) * 12
+    context.save()
+    context.font = "bold 48px sans-serif"
+    context.textAlign = "center"
+    context.textBaseline = "middle"
+    context.shadowColor = "rgba(0, 0, 0, 0.8)"
+    context.shadowOffsetX = 2
+    context.shadowOffsetY = 2
+    context.shadowBlur = 4
+    context.fillStyle = display.color
+    context.fillText(display.label, width / 2, GAME_HEIGHT / 3 - bounce)
+    context.restore()
+  }
+}
+
+const getEffectKind = (event: JudgeEvent): keyof typeof EFFECT_DURATION =>
+  event.judgment === "miss" ? "miss" : event.part === "tail" ? "tail" : "tap"
@@ -0,0 +1,199 @@
+import { chartToNotes, parseChart, type Chart } from "@/lib/chart"
+import {
+  DIFFICULTY_SETTINGS,
+  KEY_MODES,
+  type Difficulty,
+  type GameStats,
+  type KeyMode,
+  type Note,
+  type RulesetId,
+} from "@/lib/game-config"
+import { GameEngine } from "@/lib/game-engine"
+import { DEFAULT_GAUGE_SETTINGS, type GaugeSettings } from "@/lib/gauge"
+import { applyLaneModifier, parseAppliedModifiers, type AppliedModifiers } from "@/lib/modifiers"
+import { MAX_SEED, generateNotes } from "@/lib/note-generator"
+import { loadSongChart, type SongEntry } from "@/lib/song-library"
+import { getJudgmentOrder, parseStats } from "@/lib/stats"
+
+// 리플레이 파일 포맷 버전
+export const REPLAY_FORMAT_VERSION = 1
+
+// 입력 기록: [판정에 쓰인 곡 시간(ms), 레인, 누름 1 / 뗌 0]
+export type ReplayInput = [number, number, 0 | 1]
+
+export interface Replay {
+  version: number
+  chartId: string
+  title: string
+  // 채보 출처 (라이브러리 곡 / 파일로 불러온 채보 / 랜덤 채보 시드 중 하나)
+  songId?: string
+  chart?: Chart
+  seed?: number
+  keyMode: KeyMode
+  difficulty: Difficulty
+  speedMultiplier: number
+  recordedAt: number
+  stats: GameStats // 플레이 당시의 최종 결과 (판정 규칙 포함)
+  modifiers?: AppliedModifiers // 플레이 옵션 (없으면 옵션 없이 플레이)
+  inputs: ReplayInput[]
+}
+
+// 잘못된 리플레이 파일 에러
+export class ReplayParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ReplayParseError"
+  }
+}
+
+// 입력 시각을 1µs 단위로 맞춘다 (파일에 짧게 저장해도 값이 그대로 복원되도록)
+export function quantizeInputTime(time: number) {
+  return Math.round(time * 1000) / 1000
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isNumberTuple = (value: unknown, lengths: number[]) =>
+  Array.isArray(value) &&
+  lengths.includes(value.length) &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item))
+
+// JSON 객체를 검증하여 리플레이로 변환
+export function parseReplay(input: unknown): Replay {
+  if (!isRecord(input)) {
+    throw new ReplayParseError("리플레이 파일은 JSON 객체여야 합니다")
+  }
+  if (input.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayParseError(`지원하지 않는 리플레이 버전입니다 (${String(input.version)})`)
+  }
+  if (typeof input.chartId !== "string" || typeof input.title !== "string") {
+    throw new ReplayParseError("채보 정보가 없습니다")
+  }
+  if (typeof input.keyMode !== "number" || !(input.keyMode in KEY_MODES)) {
+    throw new ReplayParseError("지원하지 않는 키 모드입니다")
+  }
+  if (typeof input.difficulty !== "string" || !(input.difficulty in DIFFICULTY_SETTINGS)) {
+    throw new ReplayParseError("지원하지 않는 난이도입니다")
+  }
+  if (typeof input.speedMultiplier !== "number" || typeof input.recordedAt !== "number") {
+    throw new ReplayParseError("플레이 설정이 올바르지 않습니다")
+  }
+
+  const stats = parseStats(input.stats)
+  if (!stats) {
+    throw new ReplayParseError("결과 기록이 올바르지 않습니다")
+  }
+
+  const modifiers = input.modifiers === undefined ? undefined : parseAppliedModifiers(input.modifiers)
+  if (modifiers === null) {
+    throw new ReplayParseError("플레이 옵션이 올바르지 않습니다")
+  }
+
+  const keyMode = input.keyMode as KeyMode
+  const inputs = input.inputs
+  if (
+    !Array.isArray(inputs) ||
+    !inputs.every((item) => isNumberTuple(item, [3]) && item[1] >= 0 && item[1] < keyMode && item[2] >= 0 && item[2] <= 1)
+  ) {
+    throw new ReplayParseError("입력 기록이 올바르지 않습니다")
+  }
+
+  const replay: Replay = {
+    version: REPLAY_FORMAT_VERSION,
+    chartId: input.chartId,
+    title: input.title,
+    keyMode,
+    difficulty: input.difficulty as Difficulty,
+    speedMultiplier: input.speedMultiplier,
+    recordedAt: input.recordedAt,
+    stats,
+    inputs: inputs as ReplayInput[],
+  }
+  if (modifiers) replay.modifiers = modifiers
+
+  // 채보 출처
+  if (typeof input.songId === "string") {
+    replay.songId = input.songId
+  } else if (input.chart !== undefined) {
+    replay.chart = parseChart(input.chart)
+  } else if (typeof input.seed === "number" && Number.isInteger(input.seed) && input.seed >= 0 && input.seed <= MAX_SEED) {
+    replay.seed = input.seed
+  } else {
+    throw new ReplayParseError("채보 정보가 없습니다")
+  }
+
+  return replay
+}
+
+// 리플레이 파일 문자열 파싱
+export function parseReplayJson(text: string): Replay {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (error) {
+    throw new ReplayParseError(`JSON 형식이 올바르지 않습니다 (${(error as Error).message})`)
+  }
+  return parseReplay(json)
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay)
+}
+
+export function getReplayFileName(replay: Replay) {
+  const date = new Date(replay.recordedAt).toISOString().slice(0, 19).replace(/[-:T]/g, "")
+  return `${replay.title}-${replay.keyMode}k-${replay.difficulty}-${date}.replay.json`
+}
+
+// 리플레이의 채보 (랜덤 채보는 null)
+export async function loadReplayChart(replay: Replay, songs: SongEntry[]): Promise<Chart | null> {
+  if (replay.songId !== undefined) {
+    const song = songs.find((entry) => entry.id === replay.songId)
+    if (!song) {
+      throw new Error(`곡 목록에 없는 곡입니다: ${replay.songId}`)
+    }
+    return loadSongChart(song, replay.keyMode, replay.difficulty)
+  }
+  return replay.chart ?? null
+}
+
+// 리플레이의 채보를 게임 노트로 복원 (플레이 당시의 레인 배치 옵션까지 적용)
+export function getReplayNotes(replay: Replay, chart: Chart | null): Note[] {
+  const notes = chart
+    ? chartToNotes(chart)
+    : generateNotes({ keyMode: replay.keyMode, difficulty: replay.difficulty, seed: replay.seed ?? 0 })
+  const { modifiers } = replay
+  return modifiers ? applyLaneModifier(notes, replay.keyMode, modifiers.lanes, modifiers.seed) : notes
+}
+
+// 기록된 입력을 time까지 게임 엔진에 그대로 넣은 결과
+export function simulateReplay(
+  notes: Note[],
+  inputs: ReplayInput[],
+  time: number,
+  rulesetId: RulesetId,
+  gauge: GaugeSettings = DEFAULT_GAUGE_SETTINGS,
+): GameEngine {
+  const engine = new GameEngine(notes, rulesetId, gauge)
+  for (const [inputTime, lane, pressed] of inputs) {
+    if (inputTime > time) break
+    if (pressed) {
+      engine.press(lane, inputTime)
+    } else {
+      engine.release(lane, inputTime)
+    }
+  }
+  engine.tick(time)
+  return engine
+}
+
+export function isSameStats(a: GameStats, b: GameStats) {
+  return (
+    a.ruleset === b.ruleset &&
+    a.score === b.score &&
+    a.combo === b.combo &&
+    a.maxCombo === b.maxCombo &&
+    getJudgmentOrder(a.ruleset).every((judgment) => a.judgments[judgment] === b.judgments[judgment])
+  )
+}
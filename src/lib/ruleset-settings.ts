@@ -0,0 +1,22 @@
+import { DEFAULT_RULESET, RULESETS, type RulesetId } from "@/lib/game-config"
+
+const STORAGE_KEY = "musicGame.ruleset.v1"
+
+// 마지막으로 고른 판정 규칙
+export function loadRulesetId(): RulesetId {
+  if (typeof window === "undefined") return DEFAULT_RULESET
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY)
+    return saved && Object.hasOwn(RULESETS, saved) ? (saved as RulesetId) : DEFAULT_RULESET
+  } catch {
+    return DEFAULT_RULESET
+  }
+}
+
+export function saveRulesetId(rulesetId: RulesetId) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, rulesetId)
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}
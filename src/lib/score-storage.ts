@@ -0,0 +1,125 @@
+import type { Difficulty, GameStats, Judgment, KeyMode, RulesetId } from "@/lib/game-config"
+import { isGaugeCleared, parseGaugeState, type GaugeState } from "@/lib/gauge"
+import { parseModifiers, type Modifiers } from "@/lib/modifiers"
+import { getAccuracy, getJudgmentOrder, parseStats } from "@/lib/stats"
+
+const STORAGE_KEY = "musicGame.playHistory.v1"
+const MAX_RECORDS = 500
+
+export type ClearLamp = "failed" | "easyClear" | "clear" | "hardClear" | "fullCombo" | "allPerfect"
+
+// 클리어 램프 표시 (낮은 순)
+export const CLEAR_LAMPS: Record<ClearLamp, { label: string; short: string; color: string; order: number }> = {
+  failed: { label: "FAILED", short: "F", color: "text-red-400 border-red-400", order: 0 },
+  easyClear: { label: "EASY CLEAR", short: "EC", color: "text-emerald-300 border-emerald-300", order: 1 },
+  clear: { label: "CLEAR", short: "CL", color: "text-blue-400 border-blue-400", order: 2 },
+  hardClear: { label: "HARD CLEAR", short: "HC", color: "text-orange-400 border-orange-400", order: 3 },
+  fullCombo: { label: "FULL COMBO", short: "FC", color: "text-green-400 border-green-400", order: 4 },
+  allPerfect: { label: "ALL PERFECT", short: "AP", color: "text-yellow-300 border-yellow-300", order: 5 },
+}
+
+export interface PlayRecord {
+  id: string
+  chartId: string
+  title: string
+  timestamp: number
+  keyMode: KeyMode
+  difficulty: Difficulty
+  speedMultiplier: number
+  modifiers?: Modifiers
+  stats: GameStats
+  gauge?: GaugeState // 끝났을 때의 게이지 (게이지가 생기기 전 기록은 없음)
+  accuracy: number
+  lamp: ClearLamp
+}
+
+export interface PersonalBest {
+  score: number
+  accuracy: number
+  maxCombo: number
+  lamp: ClearLamp
+  plays: number
+}
+
+// PERFECT보다 낮은 판정이 없으면 ALL PERFECT, 콤보가 끊기지 않았으면 FULL COMBO
+// 그 밖에는 게이지 종류와 클리어 여부 (게이지 기록이 없으면 CLEAR)
+export function getClearLamp(stats: GameStats, gauge?: GaugeState): ClearLamp {
+  const order = getJudgmentOrder(stats.ruleset)
+  const below = (judgment: Judgment) => order.slice(order.indexOf(judgment) + 1)
+  const count = (judgments: Judgment[]) => judgments.reduce((sum, judgment) => sum + (stats.judgments[judgment] ?? 0), 0)
+  if (count(below("perfect")) === 0) return "allPerfect"
+  if ((stats.judgments.miss ?? 0) === 0 && (stats.judgments.bad ?? 0) === 0) return "fullCombo"
+  if (!gauge) return "clear"
+  if (!isGaugeCleared(gauge)) return "failed"
+  return gauge.type === "hard" ? "hardClear" : gauge.type === "easy" ? "easyClear" : "clear"
+}
+
+// 저장된 플레이 기록 (최신 순)
+export function loadPlayHistory(): PlayRecord[] {
+  if (typeof window === "undefined") return []
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    const records: unknown = raw ? JSON.parse(raw) : []
+    if (!Array.isArray(records)) return []
+    // 판정 규칙이 생기기 전 기록도 결과를 같은 형식으로 읽는다
+    return (records as PlayRecord[]).flatMap((record) => {
+      const stats = parseStats(record.stats)
+      if (!stats) return []
+      const gauge = record.gauge === undefined ? undefined : (parseGaugeState(record.gauge) ?? undefined)
+      const modifiers = record.modifiers === undefined ? undefined : parseModifiers(record.modifiers)
+      return [{ ...record, stats, gauge, modifiers }]
+    })
+  } catch {
+    return []
+  }
+}
+
+// 플레이 기록 저장 후 갱신된 기록 목록 반환
+export function savePlayRecord(record: Omit<PlayRecord, "id" | "accuracy" | "lamp">): PlayRecord[] {
+  const newRecord: PlayRecord = {
+    ...record,
+    id: `${record.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    accuracy: getAccuracy(record.stats),
+    lamp: getClearLamp(record.stats, record.gauge),
+  }
+
+  const records = [newRecord, ...loadPlayHistory()].slice(0, MAX_RECORDS)
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  } catch {
+    // 저장 공간 부족 등은 무시 (현재 세션 기록만 유지)
+  }
+  return records
+}
+
+export function clearPlayHistory() {
+  window.localStorage.removeItem(STORAGE_KEY)
+}
+
+// 채보별 개인 최고 기록 (점수 방식이 다른 규칙끼리는 비교하지 않도록 판정 규칙별로)
+export function getPersonalBests(records: PlayRecord[], rulesetId: RulesetId): Map<string, PersonalBest> {
+  const bests = new Map<string, PersonalBest>()
+  records.forEach((record) => {
+    if (record.stats.ruleset !== rulesetId) return
+    const best = bests.get(record.chartId)
+    if (!best) {
+      bests.set(record.chartId, {
+        score: record.stats.score,
+        accuracy: record.accuracy,
+        maxCombo: record.stats.maxCombo,
+        lamp: record.lamp,
+        plays: 1,
+      })
+      return
+    }
+
+    best.score = Math.max(best.score, record.stats.score)
+    best.accuracy = Math.max(best.accuracy, record.accuracy)
+    best.maxCombo = Math.max(best.maxCombo, record.stats.maxCombo)
+    if (CLEAR_LAMPS[record.lamp].order > CLEAR_LAMPS[best.lamp].order) {
+      best.lamp = record.lamp
+    }
+    best.plays += 1
+  })
+  return bests
+}
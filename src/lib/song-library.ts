@@ -0,0 +1,95 @@
+import { parseChart, type Chart } from "@/lib/chart"
+import { DIFFICULTY_SETTINGS, KEY_MODES, type Difficulty, type KeyMode } from "@/lib/game-config"
+
+// 곡 라이브러리 위치 (public/songs)
+export const SONG_LIBRARY_PATH = "/songs"
+
+export interface SongChartEntry {
+  keyMode: KeyMode
+  difficulty: Difficulty
+  file: string // 곡 폴더 기준 채보 파일 경로
+}
+
+export interface SongEntry {
+  id: string // 곡 폴더 이름
+  title: string
+  artist: string
+  bpm: number
+  length: number // 곡 길이 (ms)
+  audio?: string // 곡 폴더 기준 음원 경로
+  preview?: { start: number; duration: number } // 미리듣기 구간 (ms)
+  charts: SongChartEntry[]
+}
+
+// 곡 폴더 안의 파일 URL
+export function getSongFileUrl(song: Pick<SongEntry, "id">, file: string) {
+  return `${SONG_LIBRARY_PATH}/${encodeURIComponent(song.id)}/${file}`
+}
+
+const isSongChartEntry = (value: unknown): value is SongChartEntry => {
+  if (typeof value !== "object" || value === null) return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.keyMode === "number" &&
+    entry.keyMode in KEY_MODES &&
+    typeof entry.difficulty === "string" &&
+    entry.difficulty in DIFFICULTY_SETTINGS &&
+    typeof entry.file === "string"
+  )
+}
+
+const isSongEntry = (value: unknown): value is SongEntry => {
+  if (typeof value !== "object" || value === null) return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.title === "string" &&
+    typeof entry.artist === "string" &&
+    typeof entry.bpm === "number" &&
+    typeof entry.length === "number" &&
+    Array.isArray(entry.charts) &&
+    entry.charts.every(isSongChartEntry)
+  )
+}
+
+// 곡 목록 불러오기 (public/songs/index.json)
+export async function loadSongLibrary(): Promise<SongEntry[]> {
+  const response = await fetch(`${SONG_LIBRARY_PATH}/index.json`)
+  if (!response.ok) {
+    throw new Error(`곡 목록을 불러올 수 없습니다 (${response.status})`)
+  }
+
+  const json: unknown = await response.json()
+  const songs = typeof json === "object" && json !== null ? (json as { songs?: unknown }).songs : undefined
+  if (!Array.isArray(songs)) {
+    throw new Error("곡 목록 형식이 올바르지 않습니다")
+  }
+
+  // 형식이 맞지 않는 항목은 건너뛴다
+  return songs.filter(isSongEntry)
+}
+
+// 곡의 특정 키 모드/난이도 채보 불러오기
+export async function loadSongChart(song: SongEntry, keyMode: KeyMode, difficulty: Difficulty): Promise<Chart> {
+  const entry = song.charts.find((chart) => chart.keyMode === keyMode && chart.difficulty === difficulty)
+  if (!entry) {
+    throw new Error(`${song.title}에는 ${keyMode}키 ${DIFFICULTY_SETTINGS[difficulty].name} 채보가 없습니다`)
+  }
+
+  const response = await fetch(getSongFileUrl(song, entry.file))
+  if (!response.ok) {
+    throw new Error(`채보를 불러올 수 없습니다: ${entry.file} (${response.status})`)
+  }
+
+  const chart = parseChart(await response.json())
+  if (chart.meta.keyMode !== keyMode || chart.meta.difficulty !== difficulty) {
+    throw new Error(`${entry.file}의 키 모드/난이도가 곡 목록과 다릅니다`)
+  }
+  return chart
+}
+
+// 채보에 연결된 음원 URL (채보 → 곡 목록 순으로 확인)
+export function getSongAudioUrl(song: SongEntry, chart?: Chart): string | null {
+  const audio = chart?.meta.audio ?? song.audio
+  return audio ? getSongFileUrl(song, audio) : null
+}
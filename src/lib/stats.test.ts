@@ -0,0 +1,29 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { createInitialStats, parseStats } from "@/lib/stats"
+
+describe("parseStats", () => {
+  test("저장한 결과를 그대로 읽는다", () => {
+    const stats = { ...createInitialStats("standard", 10), score: 900000, combo: 3, maxCombo: 7 }
+    assert.deepEqual(parseStats(JSON.parse(JSON.stringify(stats))), stats)
+  })
+
+  test("판정 규칙이 생기기 전 기록은 클래식 규칙으로 읽는다", () => {
+    const stats = parseStats({ score: 1000, combo: 2, maxCombo: 5, perfect: 4, good: 1, miss: 2 })
+    assert.equal(stats?.ruleset, "classic")
+    assert.equal(stats?.totalJudgments, 7)
+  })
+
+  test("없는 판정 규칙은 거부한다 (Object의 상속 속성 포함)", () => {
+    const stats = createInitialStats("standard", 10)
+    for (const ruleset of ["unknown", "constructor", "toString", "__proto__"]) {
+      assert.equal(parseStats({ ...stats, ruleset }), null)
+    }
+  })
+
+  test("판정 수가 빠졌거나 음수면 거부한다", () => {
+    const stats = createInitialStats("simple", 4)
+    assert.equal(parseStats({ ...stats, judgments: { ...stats.judgments, miss: -1 } }), null)
+    assert.equal(parseStats({ ...stats, judgments: {} }), null)
+  })
+})
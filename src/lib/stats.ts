@@ -0,0 +1,119 @@
+import {
+  DEFAULT_RULESET,
+  RULESETS,
+  getRuleset,
+  type GameStats,
+  type Judgment,
+  type RulesetId,
+} from "@/lib/game-config"
+
+// 정확도 점수 방식의 만점
+export const MAX_SCORE = 1_000_000
+
+// 규칙의 판정 단계 (좁은 범위부터, 마지막은 MISS)
+export function getJudgmentOrder(rulesetId: RulesetId): Judgment[] {
+  return [...getRuleset(rulesetId).tiers.map((tier) => tier.judgment), "miss"]
+}
+
+export function createInitialStats(rulesetId: RulesetId, totalJudgments = 0): GameStats {
+  return {
+    ruleset: rulesetId,
+    score: 0,
+    combo: 0,
+    maxCombo: 0,
+    judgments: Object.fromEntries(getJudgmentOrder(rulesetId).map((judgment) => [judgment, 0])),
+    totalJudgments,
+  }
+}
+
+export const INITIAL_STATS: GameStats = createInitialStats(DEFAULT_RULESET)
+
+// 판정 하나를 점수와 콤보에 반영
+export function applyJudgment(stats: GameStats, judgment: Judgment): GameStats {
+  const ruleset = getRuleset(stats.ruleset)
+  const tier = ruleset.tiers.find((item) => item.judgment === judgment)
+  const judgments = { ...stats.judgments, [judgment]: (stats.judgments[judgment] ?? 0) + 1 }
+
+  if (!tier || tier.breaksCombo) {
+    const next = { ...stats, judgments, combo: 0, maxCombo: Math.max(stats.maxCombo, stats.combo) }
+    return ruleset.scoring === "accuracy" ? { ...next, score: getAccuracyScore(next) } : next
+  }
+
+  const next = { ...stats, judgments, combo: stats.combo + 1, maxCombo: Math.max(stats.maxCombo, stats.combo + 1) }
+  return {
+    ...next,
+    score:
+      ruleset.scoring === "accuracy"
+        ? getAccuracyScore(next)
+        : stats.score + tier.points * Math.max(1, Math.floor(stats.combo / 10) + 1),
+  }
+}
+
+// 판정 가중치의 합 (판정 순서와 무관하게 같은 값이 되도록 횟수로 계산)
+const getWeightedHits = (stats: GameStats) =>
+  getRuleset(stats.ruleset).tiers.reduce((sum, tier) => sum + (stats.judgments[tier.judgment] ?? 0) * tier.weight, 0)
+
+// 채보 전체 판정 수 기준 점수 (모두 가장 좋은 판정이면 MAX_SCORE)
+const getAccuracyScore = (stats: GameStats) =>
+  stats.totalJudgments > 0 ? Math.round((getWeightedHits(stats) / stats.totalJudgments) * MAX_SCORE) : 0
+
+// 판정된 수
+export function getJudgedCount(stats: GameStats) {
+  return Object.values(stats.judgments).reduce((sum, count) => sum + (count ?? 0), 0)
+}
+
+// 지금까지 판정한 노트 기준 가중 정확도 (%)
+export function getAccuracy(stats: GameStats) {
+  const judged = getJudgedCount(stats)
+  if (judged === 0) return 0
+  return (getWeightedHits(stats) / judged) * 100
+}
+
+// 통계 카드용 판정별 횟수 (규칙의 판정 순서)
+export function getJudgmentCounts(stats: GameStats) {
+  return getJudgmentOrder(stats.ruleset).map((judgment) => ({ judgment, count: stats.judgments[judgment] ?? 0 }))
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0
+
+// 저장된 결과 기록 검증 (판정 규칙이 생기기 전 기록은 PERFECT/GOOD/MISS 클래식 규칙으로 읽는다)
+export function parseStats(input: unknown): GameStats | null {
+  if (!isRecord(input)) return null
+  if (!["score", "combo", "maxCombo"].every((key) => typeof input[key] === "number")) return null
+  const base = { score: input.score as number, combo: input.combo as number, maxCombo: input.maxCombo as number }
+
+  if (input.ruleset === undefined && isCount(input.perfect) && isCount(input.good) && isCount(input.miss)) {
+    const judgments = { perfect: input.perfect, good: input.good, miss: input.miss }
+    return { ...base, ruleset: "classic", judgments, totalJudgments: input.perfect + input.good + input.miss }
+  }
+
+  const { ruleset, judgments, totalJudgments } = input
+  if (typeof ruleset !== "string" || !Object.hasOwn(RULESETS, ruleset) || !isRecord(judgments) || !isCount(totalJudgments)) {
+    return null
+  }
+  const order = getJudgmentOrder(ruleset as RulesetId)
+  if (!order.every((judgment) => isCount(judgments[judgment]))) return null
+  return {
+    ...base,
+    ruleset: ruleset as RulesetId,
+    judgments: Object.fromEntries(order.map((judgment) => [judgment, judgments[judgment]])),
+    totalJudgments,
+  }
+}
+
+// 정확도별 랭크 기준 (높은 순)
+export const RANKS = [
+  { rank: "S", minAccuracy: 95, color: "text-yellow-300" },
+  { rank: "A", minAccuracy: 90, color: "text-green-400" },
+  { rank: "B", minAccuracy: 80, color: "text-blue-400" },
+  { rank: "C", minAccuracy: 70, color: "text-purple-400" },
+  { rank: "D", minAccuracy: 0, color: "text-gray-400" },
+]
+
+export function getRank(accuracy: number) {
+  return RANKS.find((rank) => accuracy >= rank.minAccuracy) ?? RANKS[RANKS.length - 1]
+}
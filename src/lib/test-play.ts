@@ -0,0 +1,40 @@
+import type { Chart, ChartMeta, ChartNote, TimingPoint } from "@/lib/chart"
+
+// 에디터 → 게임 화면 테스트 플레이 요청
+// 같은 문서 안에서 클라이언트 라우팅으로 이동하므로 모듈 메모리로 전달한다
+export interface TestPlayRequest {
+  chart: Chart
+  audio: Blob | null
+  startTime: number // 이 곡 시간(ms)부터 플레이
+}
+
+// 테스트 플레이 후 에디터로 돌아왔을 때 복원할 작업 상태
+export interface EditorDraft {
+  meta: ChartMeta
+  notes: ChartNote[]
+  timing: TimingPoint[]
+  audioFile: File | null
+  cursorBeat: number
+}
+
+let pendingTestPlay: TestPlayRequest | null = null
+let editorDraft: EditorDraft | null = null
+
+export function requestTestPlay(request: TestPlayRequest) {
+  pendingTestPlay = request
+}
+
+// 대기 중인 테스트 플레이 요청을 가져오고 비운다
+export function takeTestPlayRequest(): TestPlayRequest | null {
+  const request = pendingTestPlay
+  pendingTestPlay = null
+  return request
+}
+
+export function saveEditorDraft(draft: EditorDraft) {
+  editorDraft = draft
+}
+
+export function loadEditorDraft(): EditorDraft | null {
+  return editorDraft
+}
@@ -0,0 +1,94 @@
+// 음 높이를 유지한 채 재생 속도 바꾸기 (WSOLA)
+// 입력에서 rate만큼씩 건너뛰며 프레임을 가져오되, 앞 프레임과 가장 잘 이어지는 위치를 찾아 겹쳐 더한다
+const FRAME_DURATION = 0.04 // 프레임 길이 (초, 절반씩 겹친다)
+const SEARCH_DURATION = 0.012 // 이어지는 위치를 찾는 범위 (초, 앞뒤로)
+const GUIDE_DECIMATION = 8 // 위치 탐색용 모노 신호는 8샘플씩 평균해 줄인다
+
+// 모든 채널을 섞고 줄인 위치 탐색용 신호
+function createGuide(channels: Float32Array[], from: number, length: number): Float32Array {
+  const guide = new Float32Array(Math.ceil(length / GUIDE_DECIMATION))
+  for (let i = 0; i < guide.length; i++) {
+    let sum = 0
+    const end = Math.min(length, (i + 1) * GUIDE_DECIMATION)
+    for (let sample = i * GUIDE_DECIMATION; sample < end; sample++) {
+      channels.forEach((data) => {
+        sum += data[from + sample]
+      })
+    }
+    guide[i] = sum
+  }
+  return guide
+}
+
+// center 근처에서 target 위치의 신호와 가장 비슷하게 시작하는 위치 (샘플 단위)
+function findBestPosition(guide: Float32Array, target: number, center: number, search: number, span: number) {
+  const targetIndex = Math.round(target / GUIDE_DECIMATION)
+  const spanLength = Math.max(1, Math.floor(span / GUIDE_DECIMATION))
+  if (targetIndex + spanLength > guide.length) return center
+
+  let best = center
+  let bestScore = -Infinity
+  const first = Math.max(0, Math.round((center - search) / GUIDE_DECIMATION))
+  const last = Math.min(guide.length - spanLength, Math.round((center + search) / GUIDE_DECIMATION))
+  for (let index = first; index <= last; index++) {
+    // 정규화한 상관 (소리가 큰 구간으로 쏠리지 않도록)
+    let correlation = 0
+    let energy = 0
+    for (let i = 0; i < spanLength; i++) {
+      const value = guide[index + i]
+      correlation += value * guide[targetIndex + i]
+      energy += value * value
+    }
+    const score = correlation / Math.sqrt(energy + 1e-9)
+    if (score > bestScore) {
+      bestScore = score
+      best = index * GUIDE_DECIMATION
+    }
+  }
+  return best
+}
+
+// 음원의 fromMs~toMs 구간을 rate배 속도로 재생한 것처럼 늘이거나 줄인 음원 (rate < 1이면 길어진다)
+export function timeStretch(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  rate: number,
+  fromMs: number,
+  toMs: number,
+): AudioBuffer {
+  const { sampleRate, numberOfChannels } = buffer
+  const from = Math.min(buffer.length, Math.max(0, Math.round((fromMs / 1000) * sampleRate)))
+  const to = Math.min(buffer.length, Math.max(from, Math.round((toMs / 1000) * sampleRate)))
+  const length = to - from
+  const outputLength = Math.max(1, Math.ceil(length / rate))
+  const output = context.createBuffer(numberOfChannels, outputLength, sampleRate)
+
+  const inputs = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+  const outputs = Array.from({ length: numberOfChannels }, (_, channel) => output.getChannelData(channel))
+  const guide = createGuide(inputs, from, length)
+
+  const frameSize = 2 * Math.round((sampleRate * FRAME_DURATION) / 2)
+  const hop = frameSize / 2
+  const search = Math.round(sampleRate * SEARCH_DURATION)
+  // 절반씩 겹치면 합이 1이 되는 Hann 창
+  const window = new Float32Array(frameSize).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize))
+
+  let previous = -1
+  for (let position = 0; position < outputLength; position += hop) {
+    const nominal = Math.min(Math.max(0, length - frameSize), Math.round(position * rate))
+    // 첫 프레임은 그대로, 이후는 앞 프레임이 자연스럽게 이어졌을 위치와 가장 비슷한 곳에서 가져온다
+    const start = previous < 0 ? nominal : findBestPosition(guide, previous + hop, nominal, search, hop)
+    const count = Math.min(frameSize, outputLength - position, length - start)
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const input = inputs[channel]
+      const data = outputs[channel]
+      for (let i = 0; i < count; i++) {
+        // 첫 프레임의 앞 절반은 겹칠 프레임이 없으므로 창을 씌우지 않는다
+        const gain = previous < 0 && i < hop ? 1 : window[i]
+        data[position + i] += input[from + start + i] * gain
+      }
+    }
+    previous = start
+  }
+  return output
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import { describe, test } from "node:test"
+import { TimingMap } from "@/lib/timing"
+
+// 120 BPM(한 박 500ms)에서 4박부터 240 BPM, 8박에서 1초 정지, 12박부터 스크롤 2배
+const createTiming = () =>
+  new TimingMap({ bpm: 120, offset: 0 }, [
+    { beat: 12, scroll: 2 },
+    { beat: 4, bpm: 240 },
+    { beat: 8, stop: 1000 },
+  ])
+
+const assertClose = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual}`)
+
+describe("TimingMap", () => {
+  test("변속 전후의 박자를 곡 시간으로 바꾼다", () => {
+    const timing = createTiming()
+    assert.equal(timing.beatToTime(-1), -500)
+    assert.equal(timing.beatToTime(2), 1000)
+    assert.equal(timing.beatToTime(4), 2000)
+    assert.equal(timing.beatToTime(6), 2500)
+  })
+
+  test("정지가 있는 박자의 노트는 정지가 시작되기 전에 닿고, 그 뒤 박자는 정지만큼 늦어진다", () => {
+    const timing = createTiming()
+    assert.equal(timing.beatToTime(8), 3000)
+    assertClose(timing.beatToTime(8.5), 4125)
+    assert.equal(timing.beatToTime(12), 5000)
+    assert.equal(timing.beatToTime(13), 5250)
+  })
+
+  test("정지 중에는 박자가 멈춘다", () => {
+    const timing = createTiming()
+    assert.equal(timing.timeToBeat(3000), 8)
+    assert.equal(timing.timeToBeat(3500), 8)
+    assert.equal(timing.timeToBeat(4000), 8)
+    assert.equal(timing.timeToBeat(4250), 9)
+  })
+
+  test("박자 → 곡 시간 → 박자가 원래 박자로 돌아온다", () => {
+    const timing = createTiming()
+    for (let beat = -2; beat <= 16; beat += 0.25) {
+      assertClose(timing.timeToBeat(timing.beatToTime(beat)), beat)
+    }
+  })
+
+  test("스크롤 위치는 정지 중에 멈추고 스크롤 속도만큼 빠르게 흐른다", () => {
+    const timing = createTiming()
+    assert.equal(timing.getPosition(-100), -100)
+    assert.equal(timing.getPosition(3000), 3000)
+    assert.equal(timing.getPosition(3500), 3000)
+    assert.equal(timing.getPosition(4000), 3000)
+    assert.equal(timing.getPosition(4500), 3500)
+    assert.equal(timing.getPosition(5000), 4000)
+    assert.equal(timing.getPosition(5500), 5000)
+  })
+
+  test("스크롤 속도 0이면 노트가 멈춰 보이고, 박자와 시간은 그대로 흐른다", () => {
+    const timing = new TimingMap({ bpm: 60, offset: 0 }, [
+      { beat: 2, scroll: 0 },
+      { beat: 4, scroll: 1 },
+    ])
+    assert.equal(timing.getPosition(3000), 2000)
+    assert.equal(timing.getPosition(4000), 2000)
+    assert.equal(timing.getPosition(5000), 3000)
+    assert.equal(timing.beatToTime(5), 5000)
+  })
+
+  test("0박의 BPM은 처음부터, 같은 박자의 변속과 정지는 함께 적용한다", () => {
+    const start = new TimingMap({ bpm: 120, offset: 100 }, [{ beat: 0, bpm: 60 }])
+    assert.equal(start.beatToTime(1), 1100)
+    assert.equal(start.beatToTime(-1), -900)
+
+    const combined = new TimingMap({ bpm: 120, offset: 0 }, [{ beat: 4, bpm: 60, stop: 500 }])
+    assert.equal(combined.beatToTime(4), 2000)
+    assert.equal(combined.beatToTime(5), 3500)
+    assert.equal(combined.timeToBeat(2250), 4)
+  })
+})
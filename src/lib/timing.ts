@@ -0,0 +1,103 @@
+import type { ChartMeta, TimingPoint } from "@/lib/chart"
+
+// 마디 하나의 박자 수 (마디선은 4/4박자로 그린다)
+export const BEATS_PER_MEASURE = 4
+
+// 시간에 따라 박자와 스크롤 위치가 일정하게 변하는 구간 (정지 구간은 msPerBeat가 Infinity)
+interface TimingSegment {
+  beat: number
+  time: number
+  position: number
+  msPerBeat: number
+  scroll: number
+}
+
+// 정렬된 values에서 value보다 작은(inclusive면 value 이하인) 값의 개수
+const countBefore = (values: number[], value: number, inclusive: boolean) => {
+  let low = 0
+  let high = values.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (values[mid] < value || (inclusive && values[mid] === value)) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+// 채보의 변속, 정지, 스크롤 속도 변화를 반영한 박자 ↔ 곡 시간 ↔ 스크롤 위치 변환
+// 스크롤 위치는 ms 단위이며 스크롤 속도가 1이면 곡 시간과 같이 흐른다 (정지 구간에서는 멈춘다)
+// 같은 박자에 있는 노트는 정지가 시작되기 전에 판정선에 닿는다
+export class TimingMap {
+  private segments: TimingSegment[]
+  private segmentTimes: number[]
+  private movingSegments: TimingSegment[] // 정지 구간을 뺀 구간 (박자 → 시간 변환용)
+  private movingBeats: number[]
+
+  constructor(meta: Pick<ChartMeta, "bpm" | "offset">, points: TimingPoint[] = []) {
+    const sorted = [...points].sort((a, b) => a.beat - b.beat)
+    let current: TimingSegment = {
+      beat: 0,
+      time: meta.offset,
+      position: meta.offset,
+      msPerBeat: 60000 / meta.bpm,
+      scroll: 1,
+    }
+    // 0박의 BPM과 스크롤 속도는 처음부터 적용 (0박 이전 시간도 같은 BPM으로 계산)
+    sorted.forEach((point) => {
+      if (point.beat > 0) return
+      if (point.bpm !== undefined) current.msPerBeat = 60000 / point.bpm
+      if (point.scroll !== undefined) current.scroll = point.scroll
+    })
+
+    const segments: TimingSegment[] = [current]
+    sorted.forEach((point) => {
+      const elapsed = (point.beat - current.beat) * current.msPerBeat
+      const time = current.time + elapsed
+      const position = current.position + elapsed * current.scroll
+      if (point.beat > 0 && (point.bpm !== undefined || point.scroll !== undefined)) {
+        current = {
+          beat: point.beat,
+          time,
+          position,
+          msPerBeat: point.bpm !== undefined ? 60000 / point.bpm : current.msPerBeat,
+          scroll: point.scroll ?? current.scroll,
+        }
+        segments.push(current)
+      }
+      if (point.stop !== undefined) {
+        segments.push({ beat: point.beat, time, position, msPerBeat: Infinity, scroll: 0 })
+        current = { ...current, beat: point.beat, time: time + point.stop, position }
+        segments.push(current)
+      }
+    })
+
+    this.segments = segments
+    this.segmentTimes = segments.map((segment) => segment.time)
+    this.movingSegments = segments.filter((segment) => segment.msPerBeat !== Infinity)
+    this.movingBeats = this.movingSegments.map((segment) => segment.beat)
+  }
+
+  // 박자 위치의 곡 시간 (정지가 있는 박자는 정지가 시작되는 시각)
+  beatToTime(beat: number) {
+    const index = countBefore(this.movingBeats, beat, false) - 1
+    const segment = this.movingSegments[Math.max(0, index)]
+    return segment.time + (beat - segment.beat) * segment.msPerBeat
+  }
+
+  // 곡 시간의 박자 위치 (정지 중에는 정지한 박자)
+  timeToBeat(time: number) {
+    const segment = this.getSegment(time)
+    if (segment.msPerBeat === Infinity) return segment.beat
+    return segment.beat + (time - segment.time) / segment.msPerBeat
+  }
+
+  // 곡 시간의 스크롤 위치
+  getPosition(time: number) {
+    const segment = this.getSegment(time)
+    return segment.position + (time - segment.time) * segment.scroll
+  }
+
+  private getSegment(time: number) {
+    return this.segments[Math.max(0, countBefore(this.segmentTimes, time, true) - 1)]
+  }
+}
@@ -0,0 +1,37 @@
+import type { AudioVolumes } from "@/lib/audio-engine"
+
+const STORAGE_KEY = "musicGame.volume.v1"
+
+// 음악, 타격음, 메뉴/메트로놈 효과음 음량 (0~1)
+export const DEFAULT_VOLUMES: AudioVolumes = {
+  music: 0.8,
+  hit: 0.6,
+  ui: 0.6,
+}
+
+const clampVolume = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback
+
+export function loadVolumes(): AudioVolumes {
+  if (typeof window === "undefined") return DEFAULT_VOLUMES
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_VOLUMES
+    const saved = JSON.parse(raw) as Partial<AudioVolumes>
+    return {
+      music: clampVolume(saved.music, DEFAULT_VOLUMES.music),
+      hit: clampVolume(saved.hit, DEFAULT_VOLUMES.hit),
+      ui: clampVolume(saved.ui, DEFAULT_VOLUMES.ui),
+    }
+  } catch {
+    return DEFAULT_VOLUMES
+  }
+}
+
+export function saveVolumes(volumes: AudioVolumes) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(volumes))
+  } catch {
+    // 저장 실패 시 현재 세션에서만 유지
+  }
+}